@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generate, generateEntries, PublicDirNotFoundError } from '../api';
+import { ConfigError, DEFAULT_JSON_CONFIG } from '../config';
+import { JsonConfig, TsConfig } from '../types';
+
+describe('API Module', () => {
+  let rootDir: string;
+  let config: JsonConfig;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-link-api-'));
+    fs.mkdirSync(path.join(rootDir, 'public', 'images'), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'public', 'images', 'logo.svg'), '<svg width="10" height="20"></svg>');
+    fs.writeFileSync(path.join(rootDir, 'public', 'data.json'), '{}');
+    fs.writeFileSync(path.join(rootDir, 'public', '.secret.json'), '{}');
+
+    config = {
+      ...DEFAULT_JSON_CONFIG,
+      publicDir: path.join(rootDir, 'public'),
+      outputFile: path.join(rootDir, 'generated', 'assetPaths.ts')
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should return included and excluded files with reasons', async () => {
+    const result = await generate(config, { write: false });
+
+    expect(result.files.included.map(file => path.basename(file))).toEqual(['data.json', 'logo.svg']);
+    expect(result.files.excluded).toEqual([{
+      filePath: path.join(rootDir, 'public', '.secret.json'),
+      relativePath: '.secret.json',
+      reason: 'exclude-pattern'
+    }]);
+  });
+
+  it('should report files rejected by shouldIncludeFile', async () => {
+    const tsConfig: TsConfig = {
+      ...config,
+      pathToVariableName: (filePath, relativePath) => path.basename(relativePath).replace(/\.[^/.]+$/, ''),
+      shouldIncludeFile: (filePath, relativePath) => !relativePath.endsWith('.json')
+    };
+
+    const result = await generate(tsConfig, { write: false });
+    expect(result.files.excluded.map(file => [file.relativePath, file.reason])).toEqual([
+      ['.secret.json', 'exclude-pattern'],
+      ['data.json', 'filtered']
+    ]);
+  });
+
+  it('should return the computed names and values', async () => {
+    const result = await generate({ ...config, emitImageData: true }, { write: false });
+
+    expect(result.assets).toEqual([
+      {
+        name: 'images.logo',
+        filePath: path.join(rootDir, 'public', 'images', 'logo.svg'),
+        relativePath: 'images/logo.svg',
+        value: '/images/logo.svg',
+        image: { width: 10, height: 20 }
+      },
+      {
+        name: 'data',
+        filePath: path.join(rootDir, 'public', 'data.json'),
+        relativePath: 'data.json',
+        value: '/data.json',
+        image: undefined
+      }
+    ]);
+    expect(result.code).toContain("export const data = '/data.json';");
+  });
+
+  it('should only write the output file when it changed', async () => {
+    const first = await generate(config);
+    expect(first.changed).toBe(true);
+    expect(first.written).toBe(true);
+    expect(fs.readFileSync(config.outputFile, 'utf8')).toBe(first.code);
+
+    const second = await generate(config);
+    expect(second.changed).toBe(false);
+    expect(second.written).toBe(false);
+  });
+
+  it('should not write when write is disabled', async () => {
+    const result = await generate(config, { write: false });
+    expect(result.changed).toBe(true);
+    expect(result.written).toBe(false);
+    expect(fs.existsSync(config.outputFile)).toBe(false);
+  });
+
+  it('should throw when the public directory does not exist', async () => {
+    await expect(generate({ ...config, publicDir: path.join(rootDir, 'missing') }))
+      .rejects.toBeInstanceOf(PublicDirNotFoundError);
+  });
+
+  it('should prefix the values with the asset prefix and base path', async () => {
+    const result = await generate({ ...config, assetPrefix: 'https://cdn.example.com', basePath: '/docs' }, { write: false });
+    expect(result.assets.map(asset => asset.value)).toEqual([
+      'https://cdn.example.com/docs/images/logo.svg',
+      'https://cdn.example.com/docs/data.json'
+    ]);
+
+    const runtime = await generate({ ...config, basePath: '/docs', runtimePrefixEnv: 'ASSET_PREFIX' }, { write: false });
+    expect(runtime.assets[0].value).toBe('/images/logo.svg');
+    expect(runtime.code).toContain("(process.env.ASSET_PREFIX ?? '/docs')");
+
+    await expect(generate({ ...config, outputFormat: 'union', runtimePrefixEnv: 'ASSET_PREFIX' }, { write: false }))
+      .rejects.toBeInstanceOf(ConfigError);
+  });
+
+  it('should group locale variants and warn about missing locales', async () => {
+    fs.writeFileSync(path.join(rootDir, 'public', 'images', 'banner.en.png'), 'en');
+    fs.writeFileSync(path.join(rootDir, 'public', 'images', 'banner.fr.png'), 'fr');
+    fs.mkdirSync(path.join(rootDir, 'public', 'fr'));
+    fs.writeFileSync(path.join(rootDir, 'public', 'fr', 'data.json'), '{}');
+
+    const result = await generate({ ...config, locales: { locales: ['en', 'fr', 'de'] } }, { write: false });
+    const banner = result.assets.find(asset => asset.name === 'images.banner')!;
+
+    expect(result.assets.map(asset => asset.name)).toEqual(['images.banner', 'images.logo', 'data']);
+    expect(banner.value).toBe('/images/banner.en.png');
+    expect(Object.keys(banner.locales!)).toEqual(['en', 'fr']);
+    expect(result.files.included).toHaveLength(5);
+    expect(result.code).toContain("export const data = { en: '/data.json', fr: '/fr/data.json' };");
+    expect(result.code).toContain('export function getLocalized<T>');
+    expect(result.warnings).toEqual([
+      'Missing locales for data.json: de',
+      'Missing locales for images/banner.png: de'
+    ]);
+  });
+
+  it('should group theme variants with the naming options and warn about missing themes', async () => {
+    fs.writeFileSync(path.join(rootDir, 'public', 'images', 'logo.dark.svg'), '<svg></svg>');
+    fs.writeFileSync(path.join(rootDir, 'public', 'images', 'moon.dark.svg'), '<svg></svg>');
+
+    const result = await generate({ ...config, themes: {}, variablePrefix: 'asset' }, { write: false });
+
+    expect(result.assets.map(asset => asset.name)).toEqual(['assetimages.assetlogo', 'assetimages.assetmoon', 'assetdata']);
+    expect(Object.keys(result.assets[0].themes!)).toEqual(['light', 'dark']);
+    expect(result.code).toContain("export const assetlogo = { light: '/images/logo.svg', dark: '/images/logo.dark.svg' };");
+    expect(result.code).toContain('export function themed<T>(asset: Themed<T>, theme: Theme): T {');
+    expect(result.warnings).toEqual(['Missing themes for images/moon.svg: light']);
+  });
+
+  it('should emit the markup or the component of SVG files next to their path constant', async () => {
+    const raw = await generate({ ...config, svg: { mode: 'raw' } }, { write: false });
+    expect(raw.code).toContain("export const logo = '/images/logo.svg';\n  export const logoSvg = '<svg width=\"10\" height=\"20\"></svg>';");
+
+    const component = await generate({ ...config, outputFormat: 'object', svg: { mode: 'component' } }, { write: false });
+    const componentFile = path.join(rootDir, 'generated', 'svg', 'images', 'logo.ts');
+    expect(component.code).toContain("import LogoSvg from './svg/images/logo';");
+    expect(component.code).toContain('    logoComponent: LogoSvg,');
+    expect(component.emittedFiles).toEqual([{ filePath: componentFile, changed: true, written: false }]);
+
+    await expect(generate({ ...config, outputFormat: 'union', svg: { mode: 'raw' } }, { write: false }))
+      .rejects.toBeInstanceOf(ConfigError);
+  });
+
+  it('should emit the types inferred from JSON files and the typed fetchAsset() helper', async () => {
+    fs.writeFileSync(path.join(rootDir, 'public', 'data.json'), '{ "title": "Assets", "count": 2 }');
+    fs.writeFileSync(path.join(rootDir, 'public', 'images', 'broken.json'), '{');
+
+    const result = await generate({ ...config, emitJsonTypes: true }, { write: false });
+
+    expect(result.assets.find(asset => asset.name === 'data')!.jsonType).toBe('{ title: string; count: number }');
+    expect(result.code).toContain("export const data = '/data.json';\nexport type DataJson = { title: string; count: number };\n");
+    expect(result.code).toContain("  '/data.json': DataJson;\n}");
+    expect(result.code).toContain('export async function fetchAsset');
+    expect(result.warnings).toEqual([`Could not parse JSON file ${path.join(rootDir, 'public', 'images', 'broken.json')}, emitting no type for it`]);
+  });
+
+  it('should emit the font stylesheet and module next to the output file', async () => {
+    fs.mkdirSync(path.join(rootDir, 'public', 'fonts'));
+    ['Inter-Regular.woff2', 'Inter-BoldItalic.woff2'].forEach(file => fs.writeFileSync(path.join(rootDir, 'public', 'fonts', file), file));
+
+    const result = await generate({ ...config, fonts: { output: 'both' } }, { write: false });
+    expect(result.emittedFiles.map(file => path.basename(file.filePath))).toEqual(['assetPaths.fonts.css', 'assetPaths.fonts.ts']);
+    expect(result.code).toContain("export const interRegular = '/fonts/Inter-Regular.woff2';");
+
+    const cssOnly = await generate({ ...config, fonts: { output: 'css', include: ['static/**'] } }, { write: false });
+    expect(cssOnly.emittedFiles).toEqual([]);
+    expect(cssOnly.warnings).toEqual(['No font files found, the font stylesheet and module are not generated']);
+  });
+
+  it('should group the assets by kind, then by directory', async () => {
+    fs.writeFileSync(path.join(rootDir, 'public', 'images', 'chair.glb'), 'glTF');
+
+    const byKind = await generate({ ...config, groupBy: 'kind' }, { write: false });
+    expect(byKind.assets.map(asset => asset.name)).toEqual(['data.data', 'other.chair', 'image.logo']);
+
+    const result = await generate({ ...config, groupBy: 'kind-directory', assetKinds: { glb: 'model' } }, { write: false });
+    expect(result.assets.map(asset => asset.name)).toEqual(['data.data', 'model.images.chair', 'image.images.logo']);
+    expect(result.code).toContain("export type ModelAsset = '/images/chair.glb';\nexport type ImageAsset = '/images/logo.svg';\n");
+  });
+
+  it('should write a manifest of the included assets next to the output file', async () => {
+    const manifestFile = path.join(rootDir, 'generated', 'assetPaths.manifest.json');
+
+    const dryRun = await generate({ ...config, emitManifest: true }, { write: false });
+    expect(dryRun.manifest).toMatchObject({ filePath: manifestFile, changed: true, written: false });
+    expect(fs.existsSync(manifestFile)).toBe(false);
+
+    const result = await generate({ ...config, emitManifest: true });
+    const written = JSON.parse(fs.readFileSync(manifestFile, 'utf8'));
+    expect(result.manifest!.written).toBe(true);
+    expect(written).toEqual({ assets: result.manifest!.assets });
+    expect(written.assets.map((asset: { name: string }) => asset.name)).toEqual(['images.logo', 'data']);
+    expect(written.assets[1]).toMatchObject({ relativePath: 'data.json', value: '/data.json', size: 2, mimeType: 'application/json' });
+  });
+
+  it('should inline the files below the threshold as data URIs', async () => {
+    const result = await generate({ ...config, inlineThreshold: 100, inlineExclude: ['**/*.json'] }, { write: false });
+    const dataUri = 'data:image/svg+xml,%3Csvg width=%2210%22 height=%2220%22%3E%3C/svg%3E';
+
+    expect(result.assets.map(asset => [asset.value, asset.dataUri])).toEqual([['/images/logo.svg', dataUri], ['/data.json', undefined]]);
+    expect(result.code).toContain(`export const logo = '${dataUri}';`);
+    expect(result.inlined).toEqual([{
+      filePath: path.join(rootDir, 'public', 'images', 'logo.svg'),
+      relativePath: 'images/logo.svg',
+      mimeType: 'image/svg+xml',
+      size: dataUri.length
+    }]);
+  });
+
+  it('should keep the public paths of inlined files in the path unions', async () => {
+    const inlineConfig = { ...config, inlineThreshold: 100, inlineInclude: ['**/*.svg'], emitPathHelpers: true, groupBy: 'kind' as const };
+
+    const namespace = await generate(inlineConfig, { write: false });
+    expect(namespace.code.match(/data:/g)).toHaveLength(1);
+    expect(namespace.code).toContain("export const assetPaths = [\n  '/data.json',\n  '/images/logo.svg',\n] as const;");
+    expect(namespace.code).toContain("export type ImageAsset = '/images/logo.svg';");
+
+    const union = await generate({ ...inlineConfig, outputFormat: 'union' }, { write: false });
+    expect(union.code).not.toContain('data:');
+    expect(union.code).toContain("| '/images/logo.svg'");
+  });
+
+  it('should group the density and width variants of responsive images', async () => {
+    ['hero.png', 'hero@2x.png', 'card-640w.jpg', 'card-1280w.jpg'].forEach(file =>
+      fs.writeFileSync(path.join(rootDir, 'public', 'images', file), file));
+
+    const result = await generate({ ...config, responsiveImages: {} }, { write: false });
+    const hero = result.assets.find(asset => asset.name === 'images.hero')!;
+
+    expect(result.assets.map(asset => asset.name)).toEqual(['images.card', 'images.hero', 'images.logo', 'data']);
+    expect(hero.srcSet).toBe('/images/hero.png 1x, /images/hero@2x.png 2x');
+    expect(hero.variants!.map(variant => variant.relativePath)).toEqual(['images/hero.png', 'images/hero@2x.png']);
+    expect(result.files.included).toHaveLength(6);
+    expect(result.code).toContain("export const card = { src: '/images/card-640w.jpg', srcSet: '/images/card-640w.jpg 640w, /images/card-1280w.jpg 1280w', variants: [");
+  });
+
+  it('should generate every entry with its own output file', async () => {
+    fs.mkdirSync(path.join(rootDir, 'brand'));
+    fs.writeFileSync(path.join(rootDir, 'brand', 'mark.svg'), '<svg></svg>');
+
+    const results = await generateEntries({
+      ...config,
+      entries: [
+        { name: 'web' },
+        {
+          name: 'brand',
+          publicDir: path.join(rootDir, 'brand'),
+          outputFile: path.join(rootDir, 'generated', 'brand.ts'),
+          namingStrategy: 'PascalCase'
+        }
+      ]
+    });
+
+    expect(results.map(result => [result.name, path.basename(result.outputFile), result.assets.map(asset => asset.name)])).toEqual([
+      ['web', 'assetPaths.ts', ['images.logo', 'data']],
+      ['brand', 'brand.ts', ['Mark']]
+    ]);
+    expect(fs.existsSync(path.join(rootDir, 'generated', 'brand.ts'))).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { diffGeneratedCode, extractExports, formatAssetDiff } from '../check';
+
+describe('Check Module', () => {
+  const previous = `/**
+ * This file is auto-generated by public-asset-link.
+ * Do not edit this file directly.
+ */
+
+export interface StaticImageData {
+  src: string;
+  width: number;
+}
+
+export namespace images {
+  export const logo: StaticImageData = { src: '/images/logo.png', width: 10, height: 10 };
+  export const banner = '/images/banner.jpg';
+}
+export const data = '/data.json';
+`;
+
+  describe('extractExports', () => {
+    it('should extract variables with their namespace path', () => {
+      const exports = extractExports(previous);
+      expect([...exports.keys()]).toEqual(['images.logo', 'images.banner', 'data']);
+      expect(exports.get('images.logo')).toBe("{ src: '/images/logo.png', width: 10, height: 10 }");
+      expect(exports.get('data')).toBe("'/data.json'");
+    });
+
+    it('should extract properties of the object format', () => {
+      const exports = extractExports(`export const assets = {
+  images: {
+    logo: '/images/logo.png',
+  },
+  data: '/data.json',
+} as const;
+
+export type Assets = typeof assets;
+`);
+      expect([...exports.entries()]).toEqual([
+        ['assets.images.logo', "'/images/logo.png'"],
+        ['assets.data', "'/data.json'"]
+      ]);
+    });
+
+    it('should extract members of the enum and union formats', () => {
+      expect([...extractExports(`export enum Asset {
+  images_logo = '/images/logo.png',
+}
+`).keys()]).toEqual(['Asset.images_logo']);
+
+      expect([...extractExports(`export type AssetPath =
+  | '/images/logo.png'
+  | '/data.json';
+`).keys()]).toEqual(['/images/logo.png', '/data.json']);
+    });
+  });
+
+  describe('diffGeneratedCode', () => {
+    it('should report added, removed and changed variables', () => {
+      const next = previous
+        .replace("  export const banner = '/images/banner.jpg';\n", '')
+        .replace("'/data.json'", "'/data.json?v=1234'")
+        .replace('export const data', "export const icon = '/icon.svg';\nexport const data");
+
+      const diff = diffGeneratedCode(previous, next);
+      expect(diff.added).toEqual(['icon']);
+      expect(diff.removed).toEqual(['images.banner']);
+      expect(diff.changed).toEqual([{ name: 'data', before: "'/data.json'", after: "'/data.json?v=1234'" }]);
+    });
+  });
+
+  describe('formatAssetDiff', () => {
+    it('should summarize the differences', () => {
+      const summary = formatAssetDiff({
+        added: ['icon'],
+        removed: ['images.banner'],
+        changed: [{ name: 'data', before: "'/a'", after: "'/b'" }]
+      });
+      expect(summary).toBe([
+        'Added (1):',
+        '  + icon',
+        'Removed (1):',
+        '  - images.banner',
+        'Changed (1):',
+        "  ~ data: '/a' -> '/b'"
+      ].join('\n'));
+    });
+
+    it('should explain differences that do not affect variables', () => {
+      expect(formatAssetDiff({ added: [], removed: [], changed: [] })).toContain('formatting or ordering');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, ConfigValidationError, defineConfig, findConfigFile, loadConfig, DEFAULT_JSON_CONFIG } from '../config';
+import { createLogger } from '../logger';
+import { isTsConfig, JsonConfig } from '../types';
+
+describe('Config discovery and loading', () => {
+  let rootDir: string;
+  const logger = createLogger({ level: 'silent' });
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    rootDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'asset-link-config-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should search upward from the start directory', () => {
+      const configFile = write('asset-link.config.mjs', 'export default {};');
+      fs.mkdirSync(path.join(rootDir, 'apps', 'web'), { recursive: true });
+
+      expect(findConfigFile(path.join(rootDir, 'apps', 'web'))).toBe(configFile);
+    });
+
+    it('should prefer TypeScript files over JSON in the same directory', () => {
+      write('asset-link.config.json', '{}');
+      const configFile = write('asset-link.config.ts', 'export default {};');
+
+      expect(findConfigFile(rootDir)).toBe(configFile);
+    });
+
+    it('should find an assetLink key in package.json', async () => {
+      write('package.json', JSON.stringify({ name: 'root', assetLink: { publicDir: './static' } }));
+      const nestedPackage = write('apps/web/package.json', JSON.stringify({ name: 'web' }));
+
+      expect(findConfigFile(path.dirname(nestedPackage))).toBe(path.join(rootDir, 'package.json'));
+      expect((await loadConfig(path.join(rootDir, 'package.json'), logger)).publicDir).toBe('./static');
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should load TypeScript configs with types and ESM syntax', async () => {
+      const configFile = write('asset-link.config.ts', `import path from 'path';
+
+interface Options { prefix: string }
+const options: Options = { prefix: 'asset' };
+
+export default {
+  publicDir: './static',
+  pathToVariableName: (filePath: string, relativePath: string): string =>
+    options.prefix + path.basename(relativePath, path.extname(relativePath))
+};
+`);
+
+      const config = await loadConfig(configFile, logger);
+      expect(config.publicDir).toBe('./static');
+      expect(isTsConfig(config) && config.pathToVariableName('', 'images/logo.png')).toBe('assetlogo');
+    });
+
+    it('should load CommonJS configs', async () => {
+      const configFile = write('asset-link.config.cjs', `module.exports = { publicDir: './cjs' };`);
+
+      expect(await loadConfig(configFile, logger)).toEqual({ ...DEFAULT_JSON_CONFIG, publicDir: './cjs' });
+    });
+
+    it('should load TypeScript configs importing sibling TypeScript modules', async () => {
+      write('config/paths.ts', `export const publicDir: string = './static';\n`);
+      write('config/naming.ts', `export const prefix = (name: string): string => 'asset' + name;\n`);
+      const configFile = write('asset-link.config.ts', `import { publicDir } from './config/paths';
+import { prefix } from './config/naming.ts';
+
+export default { publicDir, pathToVariableName: (filePath: string, relativePath: string) => prefix(relativePath) };
+`);
+
+      const config = await loadConfig(configFile, logger);
+      expect(config.publicDir).toBe('./static');
+      expect(isTsConfig(config) && config.pathToVariableName('', 'logo')).toBe('assetlogo');
+    });
+
+    it('should load .ts configs of CommonJS packages as CommonJS modules', async () => {
+      write('package.json', JSON.stringify({ name: 'web', type: 'commonjs' }));
+      write('config/naming.ts', `export const prefix = (name: string): string => 'asset' + name;\n`);
+      const configFile = write('asset-link.config.ts', `import { prefix } from './config/naming';
+const path = require('path');
+
+module.exports = {
+  publicDir: path.join(__dirname, 'static'),
+  pathToVariableName: (filePath: string, relativePath: string) => prefix(relativePath)
+};
+`);
+
+      const config = await loadConfig(configFile, logger);
+      expect(config.publicDir).toBe(path.join(rootDir, 'static'));
+      expect(isTsConfig(config) && config.pathToVariableName('', 'logo')).toBe('assetlogo');
+    });
+
+    it('should load ES module configs using import.meta and top-level await', async () => {
+      const configFile = write('asset-link.config.mjs', `import path from 'path';
+import { fileURLToPath } from 'url';
+
+const root = path.dirname(fileURLToPath(import.meta.url));
+const publicDir = await Promise.resolve(path.join(root, 'static'));
+
+export default { publicDir };
+`);
+
+      expect((await loadConfig(configFile, logger)).publicDir).toBe(path.join(rootDir, 'static'));
+    });
+
+    it('should load .js configs of "type": "module" packages as ES modules', async () => {
+      write('package.json', JSON.stringify({ name: 'web', type: 'module' }));
+      const configFile = write('asset-link.config.js', `import { fileURLToPath } from 'url';
+
+export default { publicDir: fileURLToPath(new URL('./static', import.meta.url)) };
+`);
+
+      expect((await loadConfig(configFile, logger)).publicDir).toBe(path.join(rootDir, 'static'));
+    });
+
+    it('should reload a config that changed', async () => {
+      const configFile = write('asset-link.config.mjs', `export default { publicDir: './a' };`);
+      expect((await loadConfig(configFile, logger)).publicDir).toBe('./a');
+
+      write('asset-link.config.mjs', `export default { publicDir: './b' };`);
+      expect((await loadConfig(configFile, logger)).publicDir).toBe('./b');
+    });
+
+    it('should fail with a clear message when a config cannot be loaded', async () => {
+      const brokenFile = write('asset-link.config.js', `throw new Error('boom');`);
+      await expect(loadConfig(brokenFile, logger)).rejects.toThrow(ConfigError);
+      await expect(loadConfig(brokenFile, logger)).rejects.toThrow(`Failed to load configuration file ${brokenFile}: boom`);
+
+      const namedExportFile = write('named.config.mjs', `export const config = {};`);
+      await expect(loadConfig(namedExportFile, logger)).rejects.toThrow('must export a configuration object');
+    });
+
+    it('should fail on syntax errors instead of loading a partial config', async () => {
+      const brokenFile = write('asset-link.config.mjs', 'export default {');
+      await expect(loadConfig(brokenFile, logger)).rejects.toThrow(ConfigError);
+      await expect(loadConfig(brokenFile, logger)).rejects.toThrow('(line 1)');
+    });
+
+    it('should reject invalid options and ignore the $schema reference', async () => {
+      const invalidFile = write('asset-link.config.json', JSON.stringify({ namingStrategy: 'camel', groupByDirectry: false }));
+      await expect(loadConfig(invalidFile, logger)).rejects.toThrow(ConfigValidationError);
+      await expect(loadConfig(invalidFile, logger)).rejects.toThrow(
+        `Invalid configuration in ${invalidFile}:\n`
+          + '  - namingStrategy: must be one of "camelCase", "PascalCase", "snake_case" (got "camel")\n'
+          + '  - groupByDirectry: unknown option, did you mean "groupByDirectory"?'
+      );
+
+      const validFile = write('asset-link.config.json', JSON.stringify({ $schema: './schema.json', publicDir: './static' }));
+      expect(await loadConfig(validFile, logger)).toEqual({ ...DEFAULT_JSON_CONFIG, publicDir: './static' });
+    });
+  });
+
+  describe('defineConfig', () => {
+    it('should return the configuration as is', () => {
+      const config: Partial<JsonConfig> = { publicDir: './static' };
+      expect(defineConfig(config)).toBe(config);
+    });
+
+    it('should only accept the callbacks along with pathToVariableName', () => {
+      const shouldIncludeFile = (filePath: string) => !filePath.endsWith('.map');
+      const pathToVariableName = (filePath: string, relativePath: string) => relativePath;
+
+      expect(defineConfig({ pathToVariableName, shouldIncludeFile })).toBeDefined();
+      expect(defineConfig({ pathToVariableName, entries: [{ name: 'web', shouldIncludeFile }] })).toBeDefined();
+      expect(defineConfig({ entries: [{ name: 'web', pathToVariableName, shouldIncludeFile }] })).toBeDefined();
+      // @ts-expect-error shouldIncludeFile is ignored without pathToVariableName
+      expect(defineConfig({ shouldIncludeFile })).toBeDefined();
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import fs from 'fs';
 import path from 'path';
-import { loadConfig, DEFAULT_JSON_CONFIG, DEFAULT_TS_CONFIG } from '../config';
+import { loadConfig, resolveConfigEntries, ConfigError, DEFAULT_JSON_CONFIG, DEFAULT_TS_CONFIG } from '../config';
 import { Config, JsonConfig, TsConfig } from '../types';
 
 // Mock fs and path modules
@@ -23,7 +23,7 @@ describe('Config Module', () => {
   });
 
   describe('loadConfig', () => {
-    it('should load JSON configuration file correctly', () => {
+    it('should load JSON configuration file correctly', async () => {
       const mockConfig: JsonConfig = {
         ...DEFAULT_JSON_CONFIG,
         publicDir: './custom-public',
@@ -32,11 +32,11 @@ describe('Config Module', () => {
 
       vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(mockConfig));
 
-      const config = loadConfig('asset-link.config.json');
+      const config = await loadConfig('asset-link.config.json');
       expect(config).toEqual(mockConfig);
     });
 
-    it('should load TypeScript configuration file correctly', () => {
+    it('should load TypeScript configuration file correctly', async () => {
       const mockTsConfig: TsConfig = {
         ...DEFAULT_TS_CONFIG,
         publicDir: './custom-public',
@@ -48,45 +48,44 @@ describe('Config Module', () => {
         default: mockTsConfig,
       }));
 
-      const config = loadConfig('mock-config.ts');
+      const config = await loadConfig('mock-config.ts');
       expect(config).toEqual(mockTsConfig);
     });
 
-    it('should return default JSON config when file not found', () => {
+    it('should return default JSON config when file not found', async () => {
       vi.mocked(fs.existsSync).mockReturnValue(false);
 
-      const config = loadConfig('non-existent.json');
+      const config = await loadConfig('non-existent.json');
       expect(config).toEqual(DEFAULT_JSON_CONFIG);
     });
 
-    it('should handle JSON parsing errors gracefully', () => {
+    it('should fail with a clear message on JSON parsing errors', async () => {
       vi.mocked(fs.readFileSync).mockReturnValue('invalid json');
 
-      const config = loadConfig('invalid.json');
-      expect(config).toEqual(DEFAULT_JSON_CONFIG);
+      await expect(loadConfig('invalid.json')).rejects.toThrow(ConfigError);
+      await expect(loadConfig('invalid.json')).rejects.toThrow(/Failed to load configuration file .*invalid\.json/);
     });
 
-    it('should merge partial JSON config with defaults', () => {
+    it('should merge partial JSON config with defaults', async () => {
       const partialConfig = {
         publicDir: './custom-public'
       };
 
       vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(partialConfig));
 
-      const config = loadConfig('partial.json');
+      const config = await loadConfig('partial.json');
       expect(config.publicDir).toBe('./custom-public');
       expect(config).toHaveProperty('excludePatterns');
       expect(config).toHaveProperty('outputFile');
     });
 
-    it('should handle TypeScript import errors gracefully', () => {
-      // Mock require to throw an error
-      vi.mock('error-config.ts', () => {
+    it('should fail with a clear message on TypeScript loading errors', async () => {
+      vi.mocked(fs.readFileSync).mockImplementation(() => {
         throw new Error('Import error');
       });
 
-      const config = loadConfig('error-config.ts');
-      expect(config).toEqual(DEFAULT_JSON_CONFIG);
+      await expect(loadConfig('error-config.ts')).rejects.toThrow(ConfigError);
+      await expect(loadConfig('error-config.ts')).rejects.toThrow(/error-config\.ts: Import error/);
     });
   });
 
@@ -123,4 +122,53 @@ describe('Config Module', () => {
       expect(result).toBe('/my-file.png');
     });
   });
+
+  describe('resolveConfigEntries', () => {
+    const config: JsonConfig = {
+      ...DEFAULT_JSON_CONFIG,
+      namingStrategy: 'PascalCase',
+      entries: [
+        { name: 'web', publicDir: './apps/web/public', outputFile: './apps/web/src/assets.ts' },
+        { name: 'admin', publicDir: './apps/admin/public', outputFile: './apps/admin/src/assets.ts', namingStrategy: 'snake_case' }
+      ]
+    };
+
+    it('should return the configuration itself when it has no entries', () => {
+      expect(resolveConfigEntries(DEFAULT_JSON_CONFIG)).toEqual([DEFAULT_JSON_CONFIG]);
+    });
+
+    it('should merge each entry with the top-level defaults', () => {
+      const entries = resolveConfigEntries(config) as JsonConfig[];
+
+      expect(entries.map(entry => [entry.name, entry.publicDir, entry.namingStrategy])).toEqual([
+        ['web', './apps/web/public', 'PascalCase'],
+        ['admin', './apps/admin/public', 'snake_case']
+      ]);
+      expect(entries[0].excludePatterns).toEqual(DEFAULT_JSON_CONFIG.excludePatterns);
+      expect(entries[0]).not.toHaveProperty('entries');
+    });
+
+    it('should select entries by name', () => {
+      expect(resolveConfigEntries(config, ['admin']).map(entry => entry.name)).toEqual(['admin']);
+      expect(() => resolveConfigEntries(config, ['docs'])).toThrow(ConfigError);
+    });
+
+    it('should apply the overrides of the selected environment', () => {
+      const withEnvironments: JsonConfig = {
+        ...config,
+        basePath: '/app',
+        environments: { production: { assetPrefix: 'https://cdn.example.com' } },
+        entries: [
+          { name: 'web' },
+          { name: 'admin', environments: { production: { basePath: '/admin' } } }
+        ]
+      };
+
+      expect(resolveConfigEntries(withEnvironments, [], 'production').map(entry => [entry.assetPrefix, entry.basePath]))
+        .toEqual([['https://cdn.example.com', '/app'], ['https://cdn.example.com', '/admin']]);
+      expect(resolveConfigEntries(withEnvironments, [], undefined)[0]).not.toHaveProperty('environments');
+      expect(() => resolveConfigEntries(withEnvironments, ['web'], 'staging'))
+        .toThrow('Unknown environment: staging in entry web (available environments: production)');
+    });
+  });
 });
\ No newline at end of file
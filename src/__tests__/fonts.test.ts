@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { generateFontFaceCss, generateNextFontCode, getFontFiles, isFontFile, listFontFiles, parseFontFileName } from '../fonts';
+import { AssetEntry } from '../types';
+
+describe('Fonts Module', () => {
+  it('should only handle font files matching the patterns', () => {
+    expect(isFontFile('fonts/inter.woff2')).toBe(true);
+    expect(isFontFile('fonts/inter.eot')).toBe(false);
+    expect(isFontFile('vendor/inter.ttf', { include: ['fonts/**'] })).toBe(false);
+  });
+
+  describe('parseFontFileName', () => {
+    it('should infer the family, weight and style from the file name', () => {
+      expect(parseFontFileName('fonts/Inter-Regular.woff2')).toEqual({ family: 'Inter', weight: '400', style: 'normal' });
+      expect(parseFontFileName('fonts/Inter-SemiBoldItalic.woff2')).toEqual({ family: 'Inter', weight: '600', style: 'italic' });
+      expect(parseFontFileName('fonts/open-sans-extra-bold.ttf')).toEqual({ family: 'Open Sans', weight: '800', style: 'normal' });
+      expect(parseFontFileName('fonts/Lato_700italic.woff')).toEqual({ family: 'Lato', weight: '700', style: 'italic' });
+      expect(parseFontFileName('fonts/Brand.otf')).toEqual({ family: 'Brand', weight: '400', style: 'normal' });
+    });
+
+    it('should skip the version and subsets, and cover every weight of variable fonts', () => {
+      expect(parseFontFileName('roboto-v30-latin-italic.woff2')).toEqual({ family: 'Roboto', weight: '400', style: 'italic' });
+      expect(parseFontFileName('Inter[wght].woff2')).toEqual({ family: 'Inter', weight: '100 900', style: 'normal' });
+    });
+  });
+
+  const entry = (relativePath: string): AssetEntry =>
+    ({ filePath: `/app/public/${relativePath}`, relativePath, value: `/${relativePath}` });
+
+  const fonts = listFontFiles({
+    fonts: {
+      interBold: entry('fonts/Inter-Bold.woff2'),
+      interRegularWoff: entry('fonts/Inter-Regular.woff'),
+      interRegular: entry('fonts/Inter-Regular.woff2'),
+      logo: entry('fonts/brand/logo.otf'),
+      readme: entry('fonts/README.md')
+    }
+  }, { output: 'both', overrides: [{ match: 'fonts/brand/**', family: 'Brand Sans' }, { match: '**/logo.otf', weight: '800' }] });
+
+  it('should list the font files sorted by family, weight and format, applying the overrides in order', () => {
+    expect(fonts.map(font => [font.relativePath, font.family, font.weight, font.format])).toEqual([
+      ['fonts/Inter-Regular.woff2', 'Inter', '400', 'woff2'],
+      ['fonts/Inter-Regular.woff', 'Inter', '400', 'woff'],
+      ['fonts/Inter-Bold.woff2', 'Inter', '700', 'woff2'],
+      ['fonts/brand/logo.otf', 'Brand Sans', '800', 'opentype']
+    ]);
+  });
+
+  it('should generate one @font-face rule per face, listing every format', () => {
+    const css = generateFontFaceCss(fonts, { display: 'optional' });
+
+    expect(css).toContain(`@font-face {
+  font-family: 'Inter';
+  src: url('/fonts/Inter-Regular.woff2') format('woff2'), url('/fonts/Inter-Regular.woff') format('woff');
+  font-weight: 400;
+  font-style: normal;
+  font-display: optional;
+}`);
+    expect(css.match(/@font-face/g)).toHaveLength(3);
+  });
+
+  it('should declare one next/font/local font per family with paths relative to the module', () => {
+    const { moduleFile } = getFontFiles('/app/src/generated/assetPaths.ts', { output: 'next-font' });
+    const code = generateNextFontCode(fonts, moduleFile, {});
+
+    expect(moduleFile).toBe('/app/src/generated/assetPaths.fonts.ts');
+    expect(code).toContain("import localFont from 'next/font/local';");
+    expect(code).toContain(`export const inter = localFont({
+  src: [
+    { path: '../../public/fonts/Inter-Regular.woff2', weight: '400', style: 'normal' },
+    { path: '../../public/fonts/Inter-Bold.woff2', weight: '700', style: 'normal' },
+  ],
+  display: 'swap',
+  variable: '--font-inter',
+});`);
+    expect(code).toContain('export const brandSans = localFont({');
+  });
+});
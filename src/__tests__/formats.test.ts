@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { generateOutputCode, generatePathHelpersCode, toStringLiteral } from '../formats';
+import { AssetGroup } from '../types';
+
+describe('Formats Module', () => {
+  const tree: AssetGroup = {
+    images: {
+      logo: {
+        filePath: '/public/images/logo.png',
+        relativePath: 'images/logo.png',
+        value: '/images/logo.png',
+        image: { width: 120, height: 40 }
+      }
+    },
+    data: { filePath: '/public/data.json', relativePath: 'data.json', value: '/data.json' }
+  };
+
+  it('should escape string literals', () => {
+    expect(toStringLiteral("/it's.png")).toBe("'/it\\'s.png'");
+  });
+
+  it('should generate namespaces by default', () => {
+    const code = generateOutputCode(tree, 'namespace');
+    expect(code).toContain('export interface StaticImageData {');
+    expect(code).toContain('export namespace images {\n'
+      + "  export const logo: StaticImageData = { src: '/images/logo.png', width: 120, height: 40 };\n"
+      + '}\n');
+    expect(code).toContain("export const data = '/data.json';");
+  });
+
+  it('should generate a nested as const object', () => {
+    const code = generateOutputCode(tree, 'object');
+    expect(code).toContain('export const assets = {\n'
+      + '  images: {\n'
+      + "    logo: { src: '/images/logo.png', width: 120, height: 40 },\n"
+      + '  },\n'
+      + "  data: '/data.json',\n"
+      + '} as const;');
+    expect(code).toContain('export type Assets = typeof assets;');
+    expect(code).not.toContain('namespace');
+  });
+
+  it('should generate a flat record keyed by path', () => {
+    const code = generateOutputCode(tree, 'record');
+    expect(code).toContain("  '/images/logo.png': { src: '/images/logo.png', width: 120, height: 40 },\n");
+    expect(code).toContain("  '/data.json': '/data.json',\n");
+    expect(code).toContain('export type AssetKey = keyof typeof assets;');
+  });
+
+  it('should generate a union of asset paths', () => {
+    expect(generateOutputCode(tree, 'union')).toBe(
+      "export type AssetPath =\n  | '/images/logo.png'\n  | '/data.json';\n"
+    );
+    expect(generateOutputCode({}, 'union')).toBe('export type AssetPath = never;\n');
+  });
+
+  it('should generate a string enum', () => {
+    expect(generateOutputCode(tree, 'enum')).toBe(
+      "export enum Asset {\n  images_logo = '/images/logo.png',\n  data = '/data.json',\n}\n"
+    );
+  });
+
+  it('should prefix the values with the prefix read at runtime', () => {
+    const runtimePrefix = { envVar: 'NEXT_PUBLIC_ASSET_PREFIX', fallback: '/docs' };
+    const code = generateOutputCode(tree, 'namespace', runtimePrefix);
+
+    expect(code).toContain("const ASSET_PREFIX = (process.env.NEXT_PUBLIC_ASSET_PREFIX ?? '/docs').replace(/\\/+$/, '');");
+    expect(code).toContain("export const logo: StaticImageData = { src: ASSET_PREFIX + '/images/logo.png', width: 120, height: 40 };");
+    expect(code).toContain("export const data = ASSET_PREFIX + '/data.json';");
+
+    const helpers = generatePathHelpersCode(tree, 'namespace', runtimePrefix);
+    expect(helpers).toContain("  '/data.json',\n");
+    expect(helpers).toContain('export function asset(path: AssetPath): string {');
+  });
+
+  it('should emit localized entries as maps and expand them in the flat formats', () => {
+    const banner = (locale: string) => ({
+      filePath: `/public/banner.${locale}.png`,
+      relativePath: `banner.${locale}.png`,
+      value: `/banner.${locale}.png`
+    });
+    const localized: AssetGroup = {
+      banner: { ...banner('en'), relativePath: 'banner.png', locales: { en: banner('en'), 'en-US': banner('en-US') } }
+    };
+
+    expect(generateOutputCode(localized, 'namespace'))
+      .toContain("export const banner = { en: '/banner.en.png', 'en-US': '/banner.en-US.png' };");
+    expect(generateOutputCode(localized, 'record'))
+      .toContain("  '/banner.png': { en: '/banner.en.png', 'en-US': '/banner.en-US.png' },");
+    expect(generateOutputCode(localized, 'enum')).toContain("  banner_en_US = '/banner.en-US.png',");
+    expect(generateOutputCode(localized, 'union')).toContain("  | '/banner.en.png'\n  | '/banner.en-US.png';");
+  });
+
+  describe('path helpers', () => {
+    it('should list every asset URL and derive the AssetPath union', () => {
+      const code = generatePathHelpersCode(tree, 'namespace');
+      expect(code).toContain("export const assetPaths = [\n  '/images/logo.png',\n  '/data.json',\n] as const;");
+      expect(code).toContain('export type AssetPath = (typeof assetPaths)[number];');
+      expect(code).toContain('export function isAssetPath(value: string): value is AssetPath {');
+      expect(code).toContain('export function asset<P extends AssetPath>(path: P): P {');
+    });
+
+    it('should reuse the AssetPath union of the union format', () => {
+      const code = generatePathHelpersCode(tree, 'union');
+      expect(code).not.toContain('export type AssetPath');
+      expect(code).toContain('value is AssetPath');
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { applyContentHash, hashContent } from '../hash';
+
+describe('Hash Module', () => {
+  describe('hashContent', () => {
+    it('should produce a stable truncated hash', () => {
+      const hash = hashContent(Buffer.from('hello'), '.png');
+      expect(hash).toBe('2cf24dba');
+      expect(hashContent(Buffer.from('hello'), '.png', 12)).toBe('2cf24dba5fb0');
+    });
+
+    it('should ignore CRLF line endings in text files', () => {
+      const lf = hashContent(Buffer.from('<svg>\n</svg>\n'), '.svg');
+      const crlf = hashContent(Buffer.from('<svg>\r\n</svg>\r\n'), '.svg');
+      expect(crlf).toBe(lf);
+    });
+
+    it('should hash binary files byte for byte', () => {
+      const lf = hashContent(Buffer.from('a\nb'), '.png');
+      const crlf = hashContent(Buffer.from('a\r\nb'), '.png');
+      expect(crlf).not.toBe(lf);
+    });
+  });
+
+  describe('applyContentHash', () => {
+    it('should append the hash as a query string', () => {
+      expect(applyContentHash('/logo.png', 'abc123', 'query')).toBe('/logo.png?v=abc123');
+      expect(applyContentHash('/logo.png?w=100', 'abc123', 'query')).toBe('/logo.png?w=100&v=abc123');
+    });
+
+    it('should insert the hash before the file extension', () => {
+      expect(applyContentHash('/images/logo.png', 'abc123', 'path')).toBe('/images/logo.abc123.png');
+      expect(applyContentHash('/images/logo.png?w=100', 'abc123', 'path')).toBe('/images/logo.abc123.png?w=100');
+      expect(applyContentHash('/v1.0/LICENSE', 'abc123', 'path')).toBe('/v1.0/LICENSE.abc123');
+    });
+
+    it('should leave the value untouched with the none strategy', () => {
+      expect(applyContentHash('/logo.png', 'abc123', 'none')).toBe('/logo.png');
+    });
+  });
+});
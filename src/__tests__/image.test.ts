@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getImageSize, isImageFile } from '../image';
+
+describe('Image Module', () => {
+  describe('isImageFile', () => {
+    it('should detect raster and SVG images by extension', () => {
+      expect(isImageFile('/public/logo.PNG')).toBe(true);
+      expect(isImageFile('/public/icon.svg')).toBe(true);
+      expect(isImageFile('/public/data.json')).toBe(false);
+    });
+  });
+
+  describe('getImageSize', () => {
+    it('should read PNG dimensions from the IHDR chunk', () => {
+      const buffer = Buffer.alloc(24);
+      buffer.writeUInt32BE(0x89504e47, 0);
+      buffer.writeUInt32BE(0x0d0a1a0a, 4);
+      buffer.write('IHDR', 12, 'ascii');
+      buffer.writeUInt32BE(640, 16);
+      buffer.writeUInt32BE(480, 20);
+
+      expect(getImageSize(buffer, '.png')).toEqual({ width: 640, height: 480 });
+    });
+
+    it('should read GIF dimensions', () => {
+      const buffer = Buffer.alloc(10);
+      buffer.write('GIF89a', 0, 'ascii');
+      buffer.writeUInt16LE(32, 6);
+      buffer.writeUInt16LE(16, 8);
+
+      expect(getImageSize(buffer, '.gif')).toEqual({ width: 32, height: 16 });
+    });
+
+    it('should read JPEG dimensions from the start-of-frame segment', () => {
+      const buffer = Buffer.from([
+        0xff, 0xd8,
+        // APP0 segment with 4 bytes of payload
+        0xff, 0xe0, 0x00, 0x06, 0x4a, 0x46, 0x49, 0x46,
+        // SOF0 segment: length, precision, height, width
+        0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0x2c, 0x02, 0x58, 0x03
+      ]);
+
+      expect(getImageSize(buffer, '.jpg')).toEqual({ width: 600, height: 300 });
+    });
+
+    it('should read extended WebP dimensions', () => {
+      const buffer = Buffer.alloc(30);
+      buffer.write('RIFF', 0, 'ascii');
+      buffer.write('WEBP', 8, 'ascii');
+      buffer.write('VP8X', 12, 'ascii');
+      buffer.writeUIntLE(1919, 24, 3);
+      buffer.writeUIntLE(1079, 27, 3);
+
+      expect(getImageSize(buffer, '.webp')).toEqual({ width: 1920, height: 1080 });
+    });
+
+    it('should read SVG dimensions from width and height attributes', () => {
+      const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="24px" height="32"></svg>';
+      expect(getImageSize(Buffer.from(svg), '.svg')).toEqual({ width: 24, height: 32 });
+    });
+
+    it('should fall back to the SVG viewBox', () => {
+      const svg = '<?xml version="1.0"?><svg viewBox="0 0 100 50"><path/></svg>';
+      expect(getImageSize(Buffer.from(svg), '.svg')).toEqual({ width: 100, height: 50 });
+    });
+
+    it('should keep the viewBox aspect ratio when only the width is set', () => {
+      const svg = '<svg width="200" viewBox="0 0 100 50"></svg>';
+      expect(getImageSize(Buffer.from(svg), '.svg')).toEqual({ width: 200, height: 100 });
+    });
+
+    it('should return undefined for unknown content', () => {
+      expect(getImageSize(Buffer.from('not an image'), '.png')).toBeUndefined();
+      expect(getImageSize(Buffer.from('<svg width="100%"></svg>'), '.svg')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createDataUri, listInlinedAssets, shouldInlineFile } from '../inline';
+import { AssetEntry } from '../types';
+
+describe('Inline Module', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-link-inline-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should only inline the files below the threshold matching the patterns', () => {
+    expect(shouldInlineFile('icons/home.svg', 100, {})).toBe(false);
+    expect(shouldInlineFile('icons/home.svg', 100, { inlineThreshold: 100 })).toBe(false);
+    expect(shouldInlineFile('icons/home.svg', 99, { inlineThreshold: 100 })).toBe(true);
+    expect(shouldInlineFile('images/logo.svg', 99, { inlineThreshold: 100, inlineInclude: ['icons/**'] })).toBe(false);
+    expect(shouldInlineFile('icons/home.svg', 99, { inlineThreshold: 100, inlineExclude: ['**/*.svg'] })).toBe(false);
+  });
+
+  describe('createDataUri', () => {
+    it('should URL-encode SVG markup', () => {
+      const filePath = path.join(rootDir, 'icon.svg');
+      fs.writeFileSync(filePath, '<svg xmlns="http://www.w3.org/2000/svg">\n  <path fill="#000"/>\n</svg>\n');
+
+      expect(createDataUri(filePath))
+        .toBe('data:image/svg+xml,%3Csvg xmlns=%22http://www.w3.org/2000/svg%22%3E%0A  %3Cpath fill=%22%23000%22/%3E%0A%3C/svg%3E');
+    });
+
+    it('should keep quoted attribute values and text whitespace intact', () => {
+      const filePath = path.join(rootDir, 'label.svg');
+      const markup = `<svg xmlns="http://www.w3.org/2000/svg"><text font-family="'Open Sans', serif" xml:space='preserve'>a  "b"\tc</text></svg>`;
+      fs.writeFileSync(filePath, markup);
+
+      const dataUri = createDataUri(filePath);
+      expect(dataUri).toContain('font-family=%22%27Open Sans%27, serif%22');
+      expect(dataUri).not.toMatch(/[\t"']/);
+      expect(decodeURIComponent(dataUri.slice('data:image/svg+xml,'.length))).toBe(markup);
+    });
+
+    it('should base64-encode other files with their MIME type', () => {
+      const filePath = path.join(rootDir, 'pixel.gif');
+      fs.writeFileSync(filePath, 'GIF89a');
+
+      expect(createDataUri(filePath)).toBe('data:image/gif;base64,R0lGODlh');
+      fs.renameSync(filePath, path.join(rootDir, 'pixel.bin'));
+      expect(createDataUri(path.join(rootDir, 'pixel.bin'))).toBe('data:application/octet-stream;base64,R0lGODlh');
+    });
+  });
+
+  it('should list the inlined files of the tree, including variants', () => {
+    const entry = (relativePath: string, inlined: boolean): AssetEntry => ({
+      filePath: path.join('/public', relativePath),
+      relativePath,
+      value: `/${relativePath}`,
+      dataUri: inlined ? 'data:image/png;base64,AAAA' : undefined
+    });
+
+    const inlined = listInlinedAssets({
+      logo: entry('logo.png', true),
+      icons: {
+        home: { ...entry('icons/home.png', false), themes: { light: entry('icons/home.png', false), dark: entry('icons/home.dark.png', true) } }
+      }
+    });
+
+    expect(inlined).toEqual([
+      { filePath: '/public/logo.png', relativePath: 'logo.png', mimeType: 'image/png', size: 26 },
+      { filePath: '/public/icons/home.dark.png', relativePath: 'icons/home.dark.png', mimeType: 'image/png', size: 26 }
+    ]);
+  });
+});
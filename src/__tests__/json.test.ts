@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { generateJsonHelpersCode, getJsonTypeNames, inferJsonType } from '../json';
+import { AssetEntry, AssetGroup } from '../types';
+
+describe('JSON Module', () => {
+  describe('inferJsonType', () => {
+    it('should widen primitives and quote invalid property names', () => {
+      expect(inferJsonType({ name: 'app', version: 2, beta: false, 'build-id': null }))
+        .toBe("{ name: string; version: number; beta: boolean; 'build-id': null }");
+      expect(inferJsonType('text')).toBe('string');
+    });
+
+    it('should merge the items of arrays, the properties missing from some objects being optional', () => {
+      expect(inferJsonType([{ id: 1, tags: ['a'] }, { id: 2, label: null }]))
+        .toBe('{ id: number; tags?: string[]; label?: null }[]');
+      expect(inferJsonType([1, 'a', [true]])).toBe('Array<number | string | boolean[]>');
+      expect(inferJsonType({ items: [], options: {} })).toBe('{ items: unknown[]; options: Record<string, never> }');
+    });
+  });
+
+  const entry = (relativePath: string, jsonType?: string): AssetEntry =>
+    ({ filePath: `/public/${relativePath}`, relativePath, value: `/${relativePath}`, jsonType });
+
+  const tree: AssetGroup = {
+    config: entry('config.json', '{ debug: boolean }'),
+    logo: entry('logo.png'),
+    locales: {
+      messages: {
+        ...entry('locales/messages.en.json', '{ title: string }'),
+        locales: { en: entry('locales/messages.en.json', '{ title: string }'), fr: entry('locales/messages.fr.json', '{ title: string }') }
+      }
+    }
+  };
+
+  it('should name the types after the variables of the JSON entries', () => {
+    const names = getJsonTypeNames({ ...tree, Config: entry('Config.json', 'number') });
+    expect(Array.from(names.values())).toEqual(['ConfigJson', 'MessagesJson', 'ConfigJson2']);
+  });
+
+  it('should map the URL of every JSON file to its type', () => {
+    const namespaceCode = generateJsonHelpersCode(tree, 'namespace');
+    expect(namespaceCode).toContain(`export interface JsonAssets {
+  '/config.json': ConfigJson;
+  '/locales/messages.en.json': locales.MessagesJson;
+  '/locales/messages.fr.json': locales.MessagesJson;
+}`);
+    expect(namespaceCode).toContain('export async function fetchAsset<P extends JsonAssetPath>(path: P, init?: RequestInit): Promise<JsonAssets[P]> {');
+    expect(namespaceCode).toContain('const response = await fetch(path, init);');
+
+    const objectCode = generateJsonHelpersCode(tree, 'object', { envVar: 'ASSET_PREFIX', fallback: '' });
+    expect(objectCode).toContain("  '/config.json': { debug: boolean };\n");
+    expect(objectCode).toContain("await fetch(path.charAt(0) === '/' && path.charAt(1) !== '/' ? ASSET_PREFIX + path : path, init);");
+  });
+});
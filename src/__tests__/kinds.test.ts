@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { generateKindTypesCode, getAssetKind, getGrouping, getKindTypeName } from '../kinds';
+
+describe('Kinds Module', () => {
+  it('should find the kind of a file from its extension', () => {
+    expect(getAssetKind('images/Logo.PNG')).toBe('image');
+    expect(getAssetKind('fonts/inter.woff2')).toBe('font');
+    expect(getAssetKind('videos/intro.webm')).toBe('video');
+    expect(getAssetKind('models/chair.glb')).toBe('other');
+    expect(getAssetKind('models/chair.glb', { '.glb': 'model' })).toBe('model');
+    expect(getAssetKind('data/feed.xml', { xml: 'feed' })).toBe('feed');
+  });
+
+  it('should let groupBy take precedence over groupByDirectory', () => {
+    expect(getGrouping(undefined, true)).toEqual({ byKind: false, byDirectory: true });
+    expect(getGrouping('kind', true)).toEqual({ byKind: true, byDirectory: false });
+    expect(getGrouping('kind-directory', false)).toEqual({ byKind: true, byDirectory: true });
+    expect(getGrouping('directory', false)).toEqual({ byKind: false, byDirectory: true });
+  });
+
+  it('should generate a union type of the URLs of each kind', () => {
+    const entry = (relativePath: string) => ({ filePath: `/public/${relativePath}`, relativePath, value: `/${relativePath}` });
+
+    expect(getKindTypeName('font')).toBe('FontAsset');
+    expect(generateKindTypesCode({
+      image: { logo: entry('logo.png'), hero: entry('hero.jpg') },
+      font: { inter: entry('inter.woff2') }
+    })).toContain("export type ImageAsset = '/logo.png' | '/hero.jpg';\nexport type FontAsset = '/inter.woff2';\n");
+    expect(generateKindTypesCode({})).toBe('');
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { detectLocale, generateLocaleHelpersCode, mergeLocaleVariants } from '../locales';
+import { AssetEntry } from '../types';
+
+describe('Locales Module', () => {
+  const options = { locales: ['en', 'fr', 'pt-BR'] };
+
+  describe('detectLocale', () => {
+    it('should detect locale suffixes before the extension', () => {
+      expect(detectLocale('images/banner.fr.png', options)).toEqual({ locale: 'fr', localizedPath: 'images/banner.png' });
+      expect(detectLocale('banner.PT-br.png', options)).toEqual({ locale: 'pt-BR', localizedPath: 'banner.png' });
+      expect(detectLocale('fr.png', options)).toBeUndefined();
+      expect(detectLocale('banner.es.png', options)).toBeUndefined();
+    });
+
+    it('should detect locale directories at any depth', () => {
+      expect(detectLocale('fr/banner.png', options)).toEqual({ locale: 'fr', localizedPath: 'banner.png' });
+      expect(detectLocale('images/en/hero.svg', options)).toEqual({ locale: 'en', localizedPath: 'images/hero.svg' });
+    });
+
+    it('should only use the configured conventions', () => {
+      expect(detectLocale('fr/banner.png', { ...options, conventions: ['suffix'] })).toBeUndefined();
+      expect(detectLocale('banner.fr.png', { ...options, conventions: ['directory'] })).toBeUndefined();
+    });
+  });
+
+  describe('mergeLocaleVariants', () => {
+    const variant = (locale: string): AssetEntry => ({
+      filePath: `/public/banner.${locale}.png`,
+      relativePath: `banner.${locale}.png`,
+      value: `/banner.${locale}.png`
+    });
+
+    it('should order the variants by locale and default to the default locale', () => {
+      const { entry, missing } = mergeLocaleVariants(
+        'banner.png',
+        new Map([['fr', variant('fr')], ['en', variant('en')]]),
+        { ...options, defaultLocale: 'fr' }
+      );
+
+      expect(Object.keys(entry.locales!)).toEqual(['en', 'fr']);
+      expect(entry.value).toBe('/banner.fr.png');
+      expect(entry.relativePath).toBe('banner.png');
+      expect(missing).toEqual(['pt-BR']);
+    });
+
+    it('should fall back to the first available locale', () => {
+      const { entry } = mergeLocaleVariants('banner.png', new Map([['pt-BR', variant('pt-BR')]]), options);
+      expect(entry.value).toBe('/banner.pt-BR.png');
+    });
+  });
+
+  it('should generate the locale helpers', () => {
+    const code = generateLocaleHelpersCode({ ...options, defaultLocale: 'fr' });
+    expect(code).toContain("export const locales = ['en', 'fr', 'pt-BR'] as const;");
+    expect(code).toContain("export const defaultLocale: Locale = 'fr';");
+    expect(code).toContain('export function getLocalized<T>(asset: Localized<T>, locale: Locale | (string & {})): T {');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { createLogger, LoggerOptions, resolveLogLevel } from '../logger';
+
+describe('Logger Module', () => {
+  const capture = (options: LoggerOptions) => {
+    const lines: Array<[string, string]> = [];
+    const logger = createLogger({ ...options, write: (line, level) => lines.push([level, line]) });
+    return { logger, lines };
+  };
+
+  describe('createLogger', () => {
+    it('should only print events up to the configured level', () => {
+      const { logger, lines } = capture({ level: 'warn' });
+      logger.error('failed');
+      logger.warn('careful');
+      logger.info('done');
+      logger.debug('details');
+
+      expect(lines).toEqual([['error', 'failed'], ['warn', 'careful']]);
+    });
+
+    it('should print nothing when silent', () => {
+      const { logger, lines } = capture({ level: 'silent' });
+      logger.error('failed');
+
+      expect(lines).toEqual([]);
+    });
+
+    it('should print JSON events with their fields', () => {
+      const { logger, lines } = capture({ format: 'json' });
+      logger.info('Generated', { event: 'generated', assets: 2 });
+
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0][1])).toMatchObject({ level: 'info', message: 'Generated', event: 'generated', assets: 2 });
+    });
+  });
+
+  describe('resolveLogLevel', () => {
+    it('should map the command line flags to levels', () => {
+      expect(resolveLogLevel({})).toBe('info');
+      expect(resolveLogLevel({ verbose: true })).toBe('debug');
+      expect(resolveLogLevel({ quiet: true })).toBe('error');
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createAssetManifest, getManifestFile } from '../manifest';
+import { AssetEntry } from '../types';
+
+describe('Manifest Module', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-link-manifest-'));
+    ['logo.svg', 'hero.png', 'hero@2x.png'].forEach(file => fs.writeFileSync(path.join(rootDir, file), file));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should write the manifest next to the output file by default', () => {
+    expect(getManifestFile({ outputFile: '/app/src/generated/assetPaths.ts' })).toBe('/app/src/generated/assetPaths.manifest.json');
+    expect(getManifestFile({ outputFile: '/app/src/generated/assetPaths.ts', manifestFile: '/app/public/manifest.json' }))
+      .toBe('/app/public/manifest.json');
+  });
+
+  it('should list every file of the tree with its metadata', () => {
+    const entry = (relativePath: string): AssetEntry => ({ filePath: path.join(rootDir, relativePath), relativePath, value: `/${relativePath}` });
+    const hero = entry('hero.png');
+
+    const { assets } = createAssetManifest({
+      images: {
+        logo: entry('logo.svg'),
+        hero: { ...hero, variants: [{ ...hero, descriptor: '1x' }, { ...entry('hero@2x.png'), descriptor: '2x' }] }
+      }
+    });
+
+    expect(assets.map(asset => [asset.name, asset.relativePath, asset.value, asset.size, asset.mimeType])).toEqual([
+      ['images.logo', 'logo.svg', '/logo.svg', 8, 'image/svg+xml'],
+      ['images.hero.1x', 'hero.png', '/hero.png', 8, 'image/png'],
+      ['images.hero.2x', 'hero@2x.png', '/hero@2x.png', 11, 'image/png']
+    ]);
+    expect(assets[0].hash).toBe(crypto.createHash('sha256').update('logo.svg').digest('hex'));
+    expect(assets[0].mtime).toBe(fs.statSync(path.join(rootDir, 'logo.svg')).mtime.toISOString());
+  });
+
+  it('should hash the raw bytes of text files, without normalizing line endings', () => {
+    const content = '<svg>\r\n</svg>\r\n';
+    fs.writeFileSync(path.join(rootDir, 'logo.svg'), content);
+
+    const { assets } = createAssetManifest({ logo: { filePath: path.join(rootDir, 'logo.svg'), relativePath: 'logo.svg', value: '/logo.svg' } });
+
+    expect(assets[0].hash).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+  });
+});
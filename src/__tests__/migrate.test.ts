@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_JSON_CONFIG } from '../config';
+import { migrateSources, UnsupportedMigrationFormatError } from '../migrate';
+import { JsonConfig } from '../types';
+
+describe('Migrate Module', () => {
+  let rootDir: string;
+  let config: JsonConfig;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const read = (relativePath: string) => fs.readFileSync(path.join(rootDir, relativePath), 'utf8');
+
+  const migrate = (overrides: Partial<JsonConfig> = {}, write = true) =>
+    migrateSources({ ...config, ...overrides }, { sources: [path.join(rootDir, 'src/**/*.{ts,tsx}')], write });
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-link-migrate-'));
+    write('public/images/logo.png', 'logo');
+    write('public/data.json', '{}');
+
+    config = {
+      ...DEFAULT_JSON_CONFIG,
+      publicDir: path.join(rootDir, 'public'),
+      outputFile: path.join(rootDir, 'src', 'generated', 'assetPaths.ts')
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should replace JSX attributes and string literals, adding the import', async () => {
+    write('src/components/Header.tsx', `'use client';
+
+export const Header = () => <img src="/images/logo.png" alt="Logo" />;
+const data = fetch('/data.json');
+`);
+
+    const report = await migrate();
+
+    expect(read('src/components/Header.tsx')).toBe(`'use client';
+import { images, data as dataAsset } from '../generated/assetPaths';
+
+export const Header = () => <img src={images.logo} alt="Logo" />;
+const data = fetch(dataAsset);
+`);
+    expect(report.replaced).toBe(2);
+    expect(report.files[0].replaced.map(literal => [literal.line, literal.expression])).toEqual([
+      [3, 'images.logo'],
+      [4, 'dataAsset']
+    ]);
+  });
+
+  it('should extend an existing import of the generated file', async () => {
+    write('src/page.tsx', `import React from 'react';
+import { data } from './generated/assetPaths';
+
+const logo = '/images/logo.png';
+`);
+
+    await migrate();
+
+    expect(read('src/page.tsx')).toBe(`import React from 'react';
+import { data, images } from './generated/assetPaths';
+
+const logo = images.logo;
+`);
+  });
+
+  it('should report broken references and leave other strings alone', async () => {
+    write('src/page.ts', `import styles from './page.module.css';
+type Route = '/images/logo.png';
+const missing = '/images/missing.png';
+const api = '/api/users';
+`);
+
+    const report = await migrate({}, false);
+
+    expect(report.replaced).toBe(0);
+    expect(report.broken).toBe(1);
+    expect(report.files[0].broken).toEqual([{ line: 3, literal: '/images/missing.png' }]);
+    expect(read('src/page.ts')).toContain("const missing = '/images/missing.png';");
+  });
+
+  it('should leave the literals where an expression is not allowed', async () => {
+    const code = `import { '/images/logo.png' as logo } from './legacy';
+export { logo as '/data.json' };
+import data from './data.json' with { type: 'json' };
+
+type Logo = \`/images/logo.png\`;
+type Assets = Record<'/data.json', string> & { '/images/logo.png': string };
+enum Asset { Logo = '/images/logo.png', Data = \`/data.json\` }
+const { '/data.json': json } = assets;
+const url = String.raw\`/images/logo.png\`;
+const css = styled\`/data.json\`;
+`;
+    write('src/page.ts', code);
+
+    const report = await migrate();
+
+    expect(report.replaced).toBe(0);
+    expect(report.broken).toBe(0);
+    expect(read('src/page.ts')).toBe(code);
+  });
+
+  it('should reference the exports of the other formats', async () => {
+    write('src/a.ts', `const logo = '/images/logo.png';\n`);
+
+    const report = await migrate({ outputFormat: 'record' }, false);
+    expect(report.files[0].replaced[0].expression).toBe("assets['/images/logo.png']");
+
+    const enumReport = await migrate({ outputFormat: 'enum' }, false);
+    expect(enumReport.files[0].replaced[0].expression).toBe('Asset.images_logo');
+
+    await expect(migrate({ outputFormat: 'union' }, false)).rejects.toBeInstanceOf(UnsupportedMigrationFormatError);
+  });
+
+  it('should leave CommonJS modules alone', async () => {
+    write('scripts/a.cjs', `const logo = '/images/logo.png';\nmodule.exports = { logo };\n`);
+    write('scripts/b.js', `const path = require('path');\nconst logo = path.join('/images/logo.png');\n`);
+    write('scripts/c.js', `export const logo = '/images/logo.png';\n`);
+
+    const report = await migrateSources(config, { sources: [path.join(rootDir, 'scripts/*.{js,cjs}')], write: false });
+
+    expect(report.files.map(file => path.basename(file.filePath))).toEqual(['c.js']);
+  });
+
+  it('should reference the variants of localized assets', async () => {
+    write('public/images/banner.en.png', 'en');
+    write('public/images/banner.pt-BR.png', 'pt');
+    write('src/a.ts', `const en = '/images/banner.en.png';\nconst pt = '/images/banner.pt-BR.png';\n`);
+
+    const report = await migrate({ locales: { locales: ['en', 'pt-BR'] } }, false);
+    expect(report.files[0].replaced.map(literal => literal.expression)).toEqual([
+      'images.banner.en',
+      "images.banner['pt-BR']"
+    ]);
+  });
+
+  it('should reference the variants of responsive images', async () => {
+    write('public/images/hero.png', '1x');
+    write('public/images/hero@2x.png', '2x');
+    write('src/a.ts', `const hero = '/images/hero.png';\nconst retina = '/images/hero@2x.png';\n`);
+
+    const report = await migrate({ responsiveImages: {} }, false);
+    expect(report.files[0].replaced.map(literal => literal.expression)).toEqual([
+      'images.hero.src',
+      'images.hero.variants[1].src'
+    ]);
+  });
+
+  it('should not write anything in dry-run mode', async () => {
+    write('src/a.ts', `const logo = '/images/logo.png';\n`);
+
+    const report = await migrate({}, false);
+
+    expect(report.files[0].changed).toBe(true);
+    expect(read('src/a.ts')).toBe(`const logo = '/images/logo.png';\n`);
+    expect(fs.existsSync(config.outputFile)).toBe(false);
+  });
+
+  it('should migrate the source files of the project by default, config and public scripts excluded', async () => {
+    write('app/page.tsx', `export const logo = '/images/logo.png';\n`);
+    write('asset-link.config.ts', `export default { shouldIncludeFile: (filePath: string) => filePath !== '/images/logo.png' };\n`);
+    write('public/sw.js', `self.precache = ['/images/logo.png'];\n`);
+    vi.spyOn(process, 'cwd').mockReturnValue(rootDir);
+
+    try {
+      const report = await migrateSources(config, { write: false });
+      expect(report.files.map(file => path.relative(rootDir, file.filePath))).toEqual([path.join('app', 'page.tsx')]);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatNameIssues,
+  isValidIdentifier,
+  NameCollisionError,
+  resolveVariableName,
+  ResolveNameOptions,
+  sanitizeIdentifier
+} from '../naming';
+
+describe('Naming Module', () => {
+  const camelJoin = (base: string, suffix: string) => base + suffix.charAt(0).toUpperCase() + suffix.slice(1);
+  const options = (overrides: Partial<ResolveNameOptions> = {}): ResolveNameOptions => ({
+    strategy: 'suffix-extension',
+    isTaken: () => false,
+    join: camelJoin,
+    ...overrides
+  });
+
+  describe('identifiers', () => {
+    it('should validate identifiers', () => {
+      expect(isValidIdentifier('logo')).toBe(true);
+      expect(isValidIdentifier('_404')).toBe(true);
+      expect(isValidIdentifier('404')).toBe(false);
+      expect(isValidIdentifier('my-logo')).toBe(false);
+    });
+
+    it('should sanitize invalid identifiers', () => {
+      expect(sanitizeIdentifier('404')).toBe('_404');
+      expect(sanitizeIdentifier('my-logo')).toBe('my_logo');
+      expect(sanitizeIdentifier('')).toBe('_');
+    });
+  });
+
+  describe('resolveVariableName', () => {
+    it('should keep valid and unused names', () => {
+      expect(resolveVariableName('logo', 'logo.png', options())).toEqual({ name: 'logo' });
+    });
+
+    it('should suffix duplicates with the extension', () => {
+      const result = resolveVariableName('logo', 'logo.svg', options({
+        extension: 'svg',
+        isTaken: name => name === 'logo'
+      }));
+      expect(result.name).toBe('logoSvg');
+      expect(result.issue).toEqual({
+        relativePath: 'logo.svg',
+        originalName: 'logo',
+        resolvedName: 'logoSvg',
+        reasons: ['duplicate']
+      });
+    });
+
+    it('should suffix duplicates with a counter', () => {
+      const taken = new Set(['icon', 'icon2']);
+      const result = resolveVariableName('icon', 'b/icon.png', options({
+        strategy: 'suffix-counter',
+        isTaken: name => taken.has(name)
+      }));
+      expect(result.name).toBe('icon3');
+    });
+
+    it('should qualify duplicates with the parent directory', () => {
+      const result = resolveVariableName('icon', 'images/icon.png', options({
+        strategy: 'qualify-parent',
+        parentName: 'images',
+        isTaken: name => name === 'icon'
+      }));
+      expect(result.name).toBe('imagesIcon');
+    });
+
+    it('should fall back to a counter when the strategy does not help', () => {
+      const result = resolveVariableName('icon', 'icon.png', options({
+        extension: 'png',
+        isTaken: name => name === 'icon' || name === 'iconPng'
+      }));
+      expect(result.name).toBe('iconPng2');
+    });
+
+    it('should rename reserved words and leading digits', () => {
+      expect(resolveVariableName('default', 'default.svg', options({ extension: 'svg' })).name).toBe('defaultSvg');
+
+      const result = resolveVariableName('404', '404.png', options({ extension: 'png' }));
+      expect(result.name).toBe('_404');
+      expect(result.issue?.reasons).toEqual(['invalid-identifier']);
+    });
+
+    it('should reject problematic names with the error strategy', () => {
+      const result = resolveVariableName('default', 'default.svg', options({ strategy: 'error' }));
+      expect(result.name).toBeUndefined();
+      expect(result.issue).toEqual({
+        relativePath: 'default.svg',
+        originalName: 'default',
+        reasons: ['reserved-word']
+      });
+    });
+  });
+
+  describe('reporting', () => {
+    it('should describe every renamed or rejected entry', () => {
+      const issues = [
+        { relativePath: 'logo.svg', originalName: 'logo', resolvedName: 'logoSvg', reasons: ['duplicate' as const] },
+        { relativePath: 'default.svg', originalName: 'default', reasons: ['reserved-word' as const] }
+      ];
+
+      expect(formatNameIssues(issues)).toBe(
+        '  logo.svg: logo -> logoSvg (duplicate)\n' +
+        '  default.svg: default rejected (reserved-word)'
+      );
+      expect(new NameCollisionError(issues).message).toContain('2 name(s) rejected');
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { matchesExcludePatterns } from '../patterns';
+
+describe('Patterns Module', () => {
+  it('should match dotfiles at any depth', () => {
+    expect(matchesExcludePatterns('.secret.json', ['**/.*'])).toBe(true);
+    expect(matchesExcludePatterns('images/.DS_Store', ['**/.*'])).toBe(true);
+  });
+
+  it('should not exclude nested files that merely contain a dot', () => {
+    expect(matchesExcludePatterns('images/logo.png', ['**/.*', '**/node_modules/**'])).toBe(false);
+  });
+
+  it('should match directory patterns', () => {
+    expect(matchesExcludePatterns('node_modules/pkg/index.js', ['**/node_modules/**'])).toBe(true);
+  });
+
+  it('should match file name patterns at any depth', () => {
+    expect(matchesExcludePatterns('images/logo.png.map', ['*.map'])).toBe(true);
+    expect(matchesExcludePatterns('images/logo.png', ['*.map'])).toBe(false);
+  });
+});
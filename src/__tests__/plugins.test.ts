@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generate } from '../api';
+import { DEFAULT_JSON_CONFIG } from '../config';
+import { AssetLinkPlugin, PluginError } from '../plugins';
+import { JsonConfig } from '../types';
+
+describe('Plugins Module', () => {
+  let rootDir: string;
+  let config: JsonConfig;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-link-plugins-'));
+    fs.mkdirSync(path.join(rootDir, 'public', 'images'), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'public', 'images', 'logo.svg'), '<svg></svg>');
+    fs.writeFileSync(path.join(rootDir, 'public', 'data.json'), '{}');
+
+    config = {
+      ...DEFAULT_JSON_CONFIG,
+      publicDir: path.join(rootDir, 'public'),
+      outputFile: path.join(rootDir, 'generated', 'assetPaths.ts')
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should let plugins remove scanned files', async () => {
+    const plugin: AssetLinkPlugin = {
+      name: 'no-json',
+      scan: files => files.filter(file => !file.endsWith('.json'))
+    };
+
+    const result = await generate({ ...config, plugins: [plugin] }, { write: false });
+    expect(result.assets.map(asset => asset.name)).toEqual(['images.logo']);
+  });
+
+  it('should transform entries with names, values and metadata', async () => {
+    const plugin: AssetLinkPlugin = {
+      name: 'cdn',
+      transformEntry: entry => ({
+        ...entry,
+        name: entry.name + 'Url',
+        value: 'https://cdn.example.com' + entry.value,
+        metadata: { cdn: true }
+      })
+    };
+
+    const result = await generate({ ...config, plugins: [plugin] }, { write: false });
+    expect(result.assets.map(asset => [asset.name, asset.value, asset.metadata])).toEqual([
+      ['images.logoUrl', 'https://cdn.example.com/images/logo.svg', { cdn: true }],
+      ['dataUrl', 'https://cdn.example.com/data.json', { cdn: true }]
+    ]);
+  });
+
+  it('should run plugins in order with a shared context', async () => {
+    const calls: string[] = [];
+    const first: AssetLinkPlugin = {
+      name: 'first',
+      transformTree: (tree, context) => {
+        calls.push('first.transformTree');
+        context.state.count = Object.keys(tree).length;
+      },
+      emit: code => {
+        calls.push('first.emit');
+        return code + '// first\n';
+      }
+    };
+    const second: AssetLinkPlugin = {
+      name: 'second',
+      transformTree: () => {
+        calls.push('second.transformTree');
+      },
+      emit: (code, context) => {
+        calls.push('second.emit');
+        return code + `// second ${context.state.count}\n`;
+      }
+    };
+
+    const result = await generate({ ...config, plugins: [first, second] }, { write: false });
+    expect(calls).toEqual(['first.transformTree', 'second.transformTree', 'first.emit', 'second.emit']);
+    expect(result.code.endsWith('// first\n// second 2\n')).toBe(true);
+  });
+
+  it('should write the files emitted by plugins', async () => {
+    const plugin: AssetLinkPlugin = {
+      name: 'list',
+      emit: (code, context) => {
+        context.emitFile(path.join(rootDir, 'generated', 'assets.txt'), 'logo\n');
+        context.warn('list emitted');
+      }
+    };
+
+    const result = await generate({ ...config, plugins: [plugin] });
+    expect(result.warnings).toEqual(['list emitted']);
+    expect(result.emittedFiles).toEqual([
+      { filePath: path.join(rootDir, 'generated', 'assets.txt'), changed: true, written: true }
+    ]);
+    expect(fs.readFileSync(path.join(rootDir, 'generated', 'assets.txt'), 'utf8')).toBe('logo\n');
+
+    const again = await generate({ ...config, plugins: [plugin] });
+    expect(again.emittedFiles[0].written).toBe(false);
+  });
+
+  it('should attribute errors to the failing plugin', async () => {
+    const plugin: AssetLinkPlugin = {
+      name: 'broken',
+      transformEntry: () => {
+        throw new Error('boom');
+      }
+    };
+
+    const error = await generate({ ...config, plugins: [plugin] }, { write: false }).catch(e => e);
+    expect(error).toBeInstanceOf(PluginError);
+    expect(error.pluginName).toBe('broken');
+    expect(error.message).toBe('Plugin "broken" failed in transformEntry: boom');
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { applyPathPrefix, getPathPrefix, isRootRelativePath } from '../prefix';
+
+describe('Prefix Module', () => {
+  it('should combine the asset prefix and the base path', () => {
+    expect(getPathPrefix({})).toBe('');
+    expect(getPathPrefix({ basePath: 'docs/' })).toBe('/docs');
+    expect(getPathPrefix({ basePath: '' })).toBe('');
+    expect(getPathPrefix({ assetPrefix: 'https://cdn.example.com/abc/', basePath: '/docs' }))
+      .toBe('https://cdn.example.com/abc/docs');
+  });
+
+  it('should only prefix root-relative paths', () => {
+    expect(isRootRelativePath('/images/logo.png')).toBe(true);
+    expect(isRootRelativePath('//cdn.example.com/logo.png')).toBe(false);
+    expect(applyPathPrefix('/images/logo.png?v=1', '/docs')).toBe('/docs/images/logo.png?v=1');
+    expect(applyPathPrefix('https://example.com/logo.png', '/docs')).toBe('https://example.com/logo.png');
+    expect(applyPathPrefix('/images/logo.png', '')).toBe('/images/logo.png');
+  });
+});
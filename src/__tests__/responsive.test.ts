@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { detectResponsiveVariant, getSrcSet, mergeResponsiveVariants } from '../responsive';
+import { AssetEntry } from '../types';
+
+describe('Responsive Module', () => {
+  describe('detectResponsiveVariant', () => {
+    it('should detect density and width suffixes', () => {
+      expect(detectResponsiveVariant('images/hero@2x.png', {})).toEqual({
+        kind: 'density',
+        descriptor: '2x',
+        size: 2,
+        basePath: 'images/hero.png'
+      });
+      expect(detectResponsiveVariant('hero@1.5x.webp', {})?.descriptor).toBe('1.5x');
+      expect(detectResponsiveVariant('card-640w.jpg', {})).toEqual({
+        kind: 'width',
+        descriptor: '640w',
+        size: 640,
+        basePath: 'card.jpg'
+      });
+    });
+
+    it('should ignore files without suffix or base name', () => {
+      expect(detectResponsiveVariant('images/hero.png', {})).toBeUndefined();
+      expect(detectResponsiveVariant('images/@2x.png', {})).toBeUndefined();
+      expect(detectResponsiveVariant('images/hero@0x.png', {})).toBeUndefined();
+    });
+
+    it('should use the configured patterns', () => {
+      const options = { densityPattern: '_(\\d)x$', widthPattern: '\\.w(\\d+)$' };
+      expect(detectResponsiveVariant('hero_2x.png', options)?.basePath).toBe('hero.png');
+      expect(detectResponsiveVariant('card.w320.jpg', options)?.descriptor).toBe('320w');
+      expect(detectResponsiveVariant('hero@2x.png', options)).toBeUndefined();
+    });
+  });
+
+  describe('mergeResponsiveVariants', () => {
+    const entry = (relativePath: string, width?: number): AssetEntry => ({
+      filePath: `/public/${relativePath}`,
+      relativePath,
+      value: `/${relativePath}`,
+      image: width ? { width, height: width / 2 } : undefined
+    });
+    const variant = (relativePath: string, width?: number) => ({
+      match: detectResponsiveVariant(relativePath, {})!,
+      entry: entry(relativePath, width)
+    });
+
+    it('should list the file without suffix as the 1x density', () => {
+      const merged = mergeResponsiveVariants('hero.png', entry('hero.png'), [variant('hero@3x.png'), variant('hero@2x.png')]);
+
+      expect(merged.value).toBe('/hero.png');
+      expect(merged.variants!.map(({ descriptor }) => descriptor)).toEqual(['1x', '2x', '3x']);
+      expect(getSrcSet(merged.variants!)).toBe('/hero.png 1x, /hero@2x.png 2x, /hero@3x.png 3x');
+    });
+
+    it('should only list the file without suffix in width sets when its width is known', () => {
+      const widths = [variant('card-1280w.jpg'), variant('card-640w.jpg')];
+
+      expect(mergeResponsiveVariants('card.jpg', entry('card.jpg'), widths).variants!.map(({ value }) => value))
+        .toEqual(['/card-640w.jpg', '/card-1280w.jpg']);
+      expect(mergeResponsiveVariants('card.jpg', entry('card.jpg', 320), widths).variants!.map(({ descriptor }) => descriptor))
+        .toEqual(['320w', '640w', '1280w']);
+    });
+
+    it('should default to the smallest variant without file without suffix', () => {
+      const merged = mergeResponsiveVariants('card.jpg', undefined, [variant('card-1280w.jpg'), variant('card-640w.jpg')]);
+
+      expect(merged.value).toBe('/card-640w.jpg');
+      expect(merged.relativePath).toBe('card.jpg');
+    });
+  });
+});
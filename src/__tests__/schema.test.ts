@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { CONFIG_SCHEMA_FILE_NAME, createConfigSchema, validateConfig } from '../schema';
+import { DEFAULT_JSON_CONFIG, DEFAULT_TS_CONFIG } from '../config';
+
+describe('Schema Module', () => {
+  describe('validateConfig', () => {
+    it('should accept the default configurations', () => {
+      expect(validateConfig(DEFAULT_JSON_CONFIG)).toEqual([]);
+      expect(validateConfig(DEFAULT_TS_CONFIG)).toEqual([]);
+      expect(validateConfig({ $schema: './schema.json', entries: [{ name: 'web', publicDir: './web' }] })).toEqual([]);
+    });
+
+    it('should report unknown keys with a suggestion', () => {
+      expect(validateConfig({ excludePattern: ['**/*.map'], foo: true })).toEqual([
+        { path: 'excludePattern', message: 'unknown option, did you mean "excludePatterns"?' },
+        { path: 'foo', message: 'unknown option' }
+      ]);
+    });
+
+    it('should report invalid types and enum values', () => {
+      const issues = validateConfig({
+        namingStrategy: 'camel',
+        groupByDirectory: 'yes',
+        excludePatterns: ['a', 1],
+        contentHashLength: 100,
+        pathToVariableName: 'camelCase'
+      });
+
+      expect(issues.map(issue => issue.path)).toEqual([
+        'namingStrategy',
+        'groupByDirectory',
+        'excludePatterns',
+        'contentHashLength',
+        'pathToVariableName'
+      ]);
+      expect(issues[0].message).toBe('must be one of "camelCase", "PascalCase", "snake_case" (got "camel")');
+      expect(issues[3].message).toBe('must be between 1 and 64 (got 100)');
+      expect(issues[4].message).toContain('must be a function');
+    });
+
+    it('should report the key path of invalid entries and plugins', () => {
+      const issues = validateConfig({
+        plugins: [{ name: 'svg', emit: 'emit.ts' }, 'svgr'],
+        entries: [
+          { name: 'web', outputFormat: 'object' },
+          { name: 'web', outputFormat: 'objects', entries: [] }
+        ]
+      });
+
+      expect(issues).toEqual([
+        { path: 'plugins[0].emit', message: 'must be a function (got "emit.ts")' },
+        { path: 'plugins[1]', message: 'must be a plugin object (got "svgr")' },
+        { path: 'entries[1].outputFormat', message: expect.stringContaining('must be one of "namespace"') },
+        { path: 'entries[1].entries', message: 'entries cannot be nested' },
+        { path: 'entries[1].name', message: 'duplicated entry name "web"' }
+      ]);
+    });
+
+    it('should validate the options of each environment', () => {
+      expect(validateConfig({
+        runtimePrefixEnv: 'NEXT_PUBLIC_ASSET_PREFIX',
+        environments: { production: { assetPrefix: 'https://cdn.example.com' } }
+      })).toEqual([]);
+
+      expect(validateConfig({
+        runtimePrefixEnv: 'process.exit()',
+        environments: { production: { assetPrefx: '/', environments: {} }, staging: '/' },
+        entries: [{ environments: { production: { name: 'prod' } } }]
+      })).toEqual([
+        { path: 'runtimePrefixEnv', message: 'must match ^[A-Za-z_][A-Za-z0-9_]*$ (got "process.exit()")' },
+        { path: 'environments.production.assetPrefx', message: 'unknown option, did you mean "assetPrefix"?' },
+        { path: 'environments.production.environments', message: 'environments cannot be nested' },
+        { path: 'environments.staging', message: 'must be an object (got "/")' },
+        { path: 'entries[0].environments.production.name', message: 'environments cannot rename an entry' }
+      ]);
+    });
+
+    it('should report the callbacks ignored without pathToVariableName', () => {
+      const callback = () => true;
+
+      expect(validateConfig({ pathToVariableName: String, shouldIncludeFile: callback, entries: [{ getBlurDataURL: callback }] }))
+        .toEqual([]);
+      expect(validateConfig({ shouldIncludeFile: callback, entries: [{ pathToVariableName: String }] })).toEqual([]);
+
+      expect(validateConfig({
+        shouldIncludeFile: callback,
+        environments: { production: { transformPathValue: callback } },
+        entries: [
+          { name: 'web', getBlurDataURL: callback },
+          { name: 'docs', environments: { production: { pathToVariableName: String, transformPathValue: callback } } }
+        ]
+      })).toEqual([
+        { path: 'entries[0].getBlurDataURL', message: 'ignored without pathToVariableName' }
+      ]);
+
+      expect(validateConfig({
+        shouldIncludeFile: callback,
+        environments: { production: { transformPathValue: callback } },
+        entries: [{ name: 'web', environments: { staging: { getBlurDataURL: callback } } }]
+      })).toEqual([
+        { path: 'shouldIncludeFile', message: 'ignored without pathToVariableName' },
+        { path: 'environments.production.transformPathValue', message: 'ignored without pathToVariableName' },
+        { path: 'entries[0].environments.staging.getBlurDataURL', message: 'ignored without pathToVariableName' }
+      ]);
+    });
+  });
+
+  it('should validate the locale options', () => {
+    expect(validateConfig({ locales: { locales: ['en', 'fr'], defaultLocale: 'fr', conventions: ['suffix'] } })).toEqual([]);
+    expect(validateConfig({ locales: { locales: [], conventions: ['prefix'], fallback: 'en' } })).toEqual([
+      { path: 'locales.locales', message: 'must be a non-empty array of strings (got an array)' },
+      { path: 'locales.conventions', message: 'must be one of "suffix", "directory" (got "prefix")' },
+      { path: 'locales.fallback', message: 'unknown option' }
+    ]);
+    expect(validateConfig({ locales: { locales: ['en'], defaultLocale: 'fr' } })).toEqual([
+      { path: 'locales.defaultLocale', message: 'must be one of the locales (got "fr")' }
+    ]);
+  });
+
+  it('should validate the theme options', () => {
+    expect(validateConfig({ themes: {} })).toEqual([]);
+    expect(validateConfig({ themes: { defaultTheme: 'dim', conventions: 'suffix' } })).toEqual([
+      { path: 'themes.defaultTheme', message: 'must be one of the themes (got "dim")' },
+      { path: 'themes.conventions', message: 'must be an array (got "suffix")' }
+    ]);
+    expect(validateConfig({ themes: { themes: [] } })).toEqual([
+      { path: 'themes.themes', message: 'must be a non-empty array of strings (got an array)' }
+    ]);
+  });
+
+  it('should validate the SVG options', () => {
+    expect(validateConfig({ svg: { mode: 'component', include: ['icons/**'], currentColor: true } })).toEqual([]);
+    expect(validateConfig({ svg: { currentColor: 'yes', jsx: true } })).toEqual([
+      { path: 'svg.mode', message: 'is required' },
+      { path: 'svg.currentColor', message: 'must be a boolean (got "yes")' },
+      { path: 'svg.jsx', message: 'unknown option' }
+    ]);
+  });
+
+  it('should validate the inlining options', () => {
+    expect(validateConfig({ inlineThreshold: 4096, inlineInclude: ['icons/**'], inlineExclude: ['**/*.json'] })).toEqual([]);
+    expect(validateConfig({ inlineThreshold: 0, inlineExclude: '**/*.json' })).toEqual([
+      { path: 'inlineThreshold', message: 'must be at least 1 (got 0)' },
+      { path: 'inlineExclude', message: expect.stringContaining('must be an array of strings') }
+    ]);
+  });
+
+  it('should validate the kinds of additional extensions', () => {
+    expect(validateConfig({ groupBy: 'kind-directory', assetKinds: { glb: 'model', '.usdz': 'model' } })).toEqual([]);
+    expect(validateConfig({ groupBy: 'type', assetKinds: { glb: '3d models' } })).toEqual([
+      { path: 'groupBy', message: 'must be one of "directory", "kind", "kind-directory" (got "type")' },
+      { path: 'assetKinds.glb', message: 'must match ^[a-z][A-Za-z0-9]*$ (got "3d models")' }
+    ]);
+  });
+
+  it('should validate the font options and overrides', () => {
+    expect(validateConfig({ fonts: { output: 'both', display: 'swap', overrides: [{ match: 'fonts/brand/**', family: 'Brand' }] } })).toEqual([]);
+    expect(validateConfig({ fonts: { display: 'fast', overrides: [{ weight: 700 }, 'bold'] } })).toEqual([
+      { path: 'fonts.output', message: 'is required' },
+      { path: 'fonts.display', message: expect.stringContaining('must be one of "auto"') },
+      { path: 'fonts.overrides[0].match', message: 'is required' },
+      { path: 'fonts.overrides[0].weight', message: 'must be a string (got 700)' },
+      { path: 'fonts.overrides[1]', message: 'must be an object (got "bold")' }
+    ]);
+  });
+
+  it('should validate the responsive image patterns', () => {
+    expect(validateConfig({ responsiveImages: {} })).toEqual([]);
+    expect(validateConfig({ responsiveImages: { densityPattern: '@(\\d+)x$', widthPattern: '-\\d+w$', suffix: '@' } })).toEqual([
+      { path: 'responsiveImages.widthPattern', message: 'must capture the size in a group (got "-\\\\d+w$")' },
+      { path: 'responsiveImages.suffix', message: 'unknown option' }
+    ]);
+    expect(validateConfig({ responsiveImages: { densityPattern: '@(\\d+x' } })).toEqual([
+      { path: 'responsiveImages.densityPattern', message: 'must be a valid regular expression (got "@(\\\\d+x")' }
+    ]);
+  });
+
+  describe('createConfigSchema', () => {
+    it('should describe the JSON options only', () => {
+      const schema = createConfigSchema() as { properties: Record<string, { enum?: string[] }> };
+
+      expect(schema.properties.collisionStrategy.enum).toEqual(['error', 'suffix-extension', 'suffix-counter', 'qualify-parent']);
+      expect(schema.properties.entries).toBeDefined();
+      expect(schema.properties.pathToVariableName).toBeUndefined();
+      expect(schema.properties.plugins).toBeUndefined();
+    });
+
+    it('should match the published schema file', () => {
+      const published = fs.readFileSync(path.join(__dirname, '..', '..', CONFIG_SCHEMA_FILE_NAME), 'utf8');
+      expect(JSON.parse(published)).toEqual(createConfigSchema());
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { generateSvgComponentCode, getComponentImportPath, getSvgComponentName, isSvgTarget, optimizeSvg } from '../svg';
+
+describe('SVG Module', () => {
+  const markup = `<?xml version="1.0"?>
+<!-- Exported -->
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="#333" stroke-width="2">
+  <metadata>editor data</metadata>
+  <path d="M19 12H5" fill="#f00" />
+  <path d="M12 19l-7-7" fill="url(#gradient)"/>
+</svg>
+`;
+
+  it('should only handle SVG files matching the patterns', () => {
+    expect(isSvgTarget('icons/home.svg', { mode: 'raw' })).toBe(true);
+    expect(isSvgTarget('images/logo.png', { mode: 'raw' })).toBe(false);
+    expect(isSvgTarget('images/logo.svg', { mode: 'raw', include: ['icons/**'] })).toBe(false);
+  });
+
+  describe('optimizeSvg', () => {
+    it('should drop the prolog, comments and metadata and collapse whitespace', () => {
+      expect(optimizeSvg(markup)).toBe('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="#333" '
+        + 'stroke-width="2"><path d="M19 12H5" fill="#f00"/><path d="M12 19l-7-7" fill="url(#gradient)"/></svg>');
+    });
+
+    it('should keep the whitespace of text and style elements', () => {
+      expect(optimizeSvg(`<svg>
+  <style>
+    .label { font: 12px  sans-serif; }
+  </style>
+  <text x="0"  y="10">Hello,  <tspan font-weight="bold">big</tspan> world</text>
+</svg>`)).toBe('<svg><style>\n    .label { font: 12px  sans-serif; }\n  </style>'
+        + '<text x="0"  y="10">Hello,  <tspan font-weight="bold">big</tspan> world</text></svg>');
+    });
+
+    it('should replace the colors with currentColor, keeping none and references', () => {
+      const optimized = optimizeSvg(markup, { currentColor: true });
+      expect(optimized).toContain('fill="none" stroke="currentColor"');
+      expect(optimized).toContain('<path d="M19 12H5" fill="currentColor"/>');
+      expect(optimized).toContain('fill="url(#gradient)"');
+    });
+  });
+
+  it('should name components after the file name', () => {
+    expect(getSvgComponentName('icons/arrow-left.svg')).toBe('ArrowLeft');
+    expect(getSvgComponentName('icons/24px.svg')).toBe('Svg24px');
+  });
+
+  it('should generate a component spreading its props over the svg element', () => {
+    const code = generateSvgComponentCode(
+      optimizeSvg('<svg viewBox="0 0 24 24" class="icon" style="fill-rule: evenodd" aria-hidden="true"><path d="M0 0"/></svg>'),
+      'Home',
+      'icons/home.svg'
+    );
+
+    expect(code).toContain("const attributes = { viewBox: '0 0 24 24', className: 'icon', style: { fillRule: 'evenodd' }, 'aria-hidden': 'true' };");
+    expect(code).toContain(`const content = '<path d="M0 0"/>';`);
+    expect(code).toContain("export default function Home(props: Omit<SVGProps<SVGSVGElement>, 'children' | 'dangerouslySetInnerHTML'>) {");
+    expect(code).toContain("createElement('svg', { ...attributes, ...props, dangerouslySetInnerHTML: { __html: content } })");
+    expect(generateSvgComponentCode('<div></div>', 'Home', 'icons/home.svg')).toBeUndefined();
+  });
+
+  it('should import components relatively to the output file', () => {
+    expect(getComponentImportPath('/app/src/assets.ts', '/app/src/svg/icons/home.ts')).toBe('./svg/icons/home');
+    expect(getComponentImportPath('/app/src/generated/assets.ts', '/app/components/icons/home.ts')).toBe('../../components/icons/home');
+  });
+});
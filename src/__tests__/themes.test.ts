@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { detectTheme, generateThemeHelpersCode, mergeThemeVariants } from '../themes';
+import { AssetEntry } from '../types';
+
+describe('Themes Module', () => {
+  describe('detectTheme', () => {
+    it('should detect light and dark suffixes by default', () => {
+      expect(detectTheme('icons/logo.dark.svg', {})).toEqual({ theme: 'dark', themedPath: 'icons/logo.svg' });
+      expect(detectTheme('icons/logo.Light.svg', {})).toEqual({ theme: 'light', themedPath: 'icons/logo.svg' });
+      expect(detectTheme('dark/logo.svg', {})).toBeUndefined();
+      expect(detectTheme('dark.svg', {})).toBeUndefined();
+    });
+
+    it('should use the configured themes and conventions', () => {
+      const options = { themes: ['day', 'night'], conventions: ['directory' as const] };
+      expect(detectTheme('icons/night/logo.svg', options)).toEqual({ theme: 'night', themedPath: 'icons/logo.svg' });
+      expect(detectTheme('icons/logo.night.svg', options)).toBeUndefined();
+    });
+  });
+
+  describe('mergeThemeVariants', () => {
+    const variant = (theme: string): AssetEntry => ({
+      filePath: `/public/logo.${theme}.svg`,
+      relativePath: `logo.${theme}.svg`,
+      value: `/logo.${theme}.svg`
+    });
+
+    it('should key the variants by theme and report the missing ones', () => {
+      const { entry, missing } = mergeThemeVariants('logo.svg', new Map([['dark', variant('dark')]]), {});
+
+      expect(entry.themes).toEqual({ dark: variant('dark') });
+      expect(entry.locales).toBeUndefined();
+      expect(entry.value).toBe('/logo.dark.svg');
+      expect(entry.relativePath).toBe('logo.svg');
+      expect(missing).toEqual(['light']);
+    });
+  });
+
+  it('should generate the theme helpers', () => {
+    const code = generateThemeHelpersCode({ defaultTheme: 'dark' });
+    expect(code).toContain("export const themes = ['light', 'dark'] as const;");
+    expect(code).toContain("export const defaultTheme: Theme = 'dark';");
+    expect(code).toContain('export function themed<T>(asset: Themed<T>, theme: Theme): T {');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_JSON_CONFIG } from '../config';
+import { deleteUnusedAssets, findUnusedAssets, formatBytes, NoSourceFilesError } from '../unused';
+import { JsonConfig } from '../types';
+
+describe('Unused Module', () => {
+  let rootDir: string;
+  let config: JsonConfig;
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(rootDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const unusedPaths = async (sourceGlobs = ['src/**/*.tsx'], overrides: Partial<JsonConfig> = {}) => {
+    const report = await findUnusedAssets({ ...config, ...overrides }, { sources: sourceGlobs.map(glob => path.join(rootDir, glob)) });
+    return report.unused.map(asset => asset.relativePath);
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-link-unused-'));
+    write('public/images/logo.png', 'logo');
+    write('public/images/hero.png', 'hero!');
+    write('public/icons/home.svg', '<svg></svg>');
+    write('public/data.json', '{}');
+
+    config = {
+      ...DEFAULT_JSON_CONFIG,
+      publicDir: path.join(rootDir, 'public'),
+      outputFile: path.join(rootDir, 'src', 'generated', 'assetPaths.ts')
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should find references through imported namespaces', async () => {
+    write('src/components/Header.tsx', `import { images } from '../generated/assetPaths';
+export const Header = () => <img src={images.logo} />;
+`);
+
+    expect(await unusedPaths()).toEqual(['icons/home.svg', 'images/hero.png', 'data.json']);
+  });
+
+  it('should find references through namespace imports and path aliases', async () => {
+    write('src/App.tsx', `import * as assets from '@/generated/assetPaths';
+const icon = assets.icons.home;
+`);
+
+    expect(await unusedPaths()).toEqual(['images/hero.png', 'images/logo.png', 'data.json']);
+  });
+
+  it('should count a whole namespace as referenced', async () => {
+    write('src/Gallery.tsx', `import { images as pictures } from '../src/generated/assetPaths';
+import { images } from './generated/assetPaths';
+Object.values(images).map(src => <img src={src} />);
+`);
+
+    expect(await unusedPaths()).toEqual(['icons/home.svg', 'data.json']);
+  });
+
+  it('should find raw path strings without matching longer paths', async () => {
+    write('src/Page.tsx', `const data = fetch('/data.json');
+const other = '/other/images/logo.png';
+`);
+
+    expect(await unusedPaths()).toEqual(['icons/home.svg', 'images/hero.png', 'images/logo.png']);
+  });
+
+  it('should map references of the object and enum formats', async () => {
+    write('src/Object.tsx', `import { assets } from './generated/assetPaths';
+const logo = assets.images.logo;
+`);
+    write('src/Enum.ts', `import { Asset } from './generated/assetPaths';
+const hero = Asset.images_hero;
+`);
+
+    expect(await unusedPaths(['src/**/*.tsx'], { outputFormat: 'object' }))
+      .toEqual(['icons/home.svg', 'images/hero.png', 'data.json']);
+    expect(await unusedPaths(['src/**/*.ts'], { outputFormat: 'enum' }))
+      .toEqual(['icons/home.svg', 'images/logo.png', 'data.json']);
+  });
+
+  it('should count references to the SVG markup or component of an asset', async () => {
+    write('src/Icon.tsx', `import { icons } from './generated/assetPaths';
+export const Home = () => <span dangerouslySetInnerHTML={{ __html: icons.homeSvg }} />;
+`);
+
+    expect(await unusedPaths(['src/**/*.tsx'], { svg: { mode: 'raw' } })).toEqual(['images/hero.png', 'images/logo.png', 'data.json']);
+  });
+
+  it('should report the total size and delete the unused assets', async () => {
+    write('src/Page.tsx', `const logo = '/images/logo.png';\n`);
+    const report = await findUnusedAssets(config, { sources: [path.join(rootDir, 'src/**/*.tsx')] });
+
+    expect(report.referenced).toBe(1);
+    expect(report.totalSize).toBe('hero!'.length + '<svg></svg>'.length + '{}'.length);
+
+    const wouldDelete = deleteUnusedAssets(report, true);
+    expect(wouldDelete).toHaveLength(3);
+    expect(fs.existsSync(path.join(rootDir, 'public', 'data.json'))).toBe(true);
+
+    deleteUnusedAssets(report);
+    expect(fs.existsSync(path.join(rootDir, 'public', 'data.json'))).toBe(false);
+    expect(fs.existsSync(path.join(rootDir, 'public', 'images', 'logo.png'))).toBe(true);
+  });
+
+  it('should scan every source file of the project by default, build outputs excluded', async () => {
+    write('app/page.tsx', `export default () => <img src="/images/logo.png" />;\n`);
+    write('components/Icon.tsx', `export const Icon = () => <img src="/icons/home.svg" />;\n`);
+    write('.next/server/app/page.js', `const hero = "/images/hero.png";\n`);
+    write('node_modules/ui/index.js', `const data = "/data.json";\n`);
+    vi.spyOn(process, 'cwd').mockReturnValue(rootDir);
+
+    try {
+      const report = await findUnusedAssets(config);
+      expect(report.sources.map(file => path.relative(rootDir, file))).toEqual([
+        path.join('app', 'page.tsx'),
+        path.join('components', 'Icon.tsx')
+      ]);
+      expect(report.unused.map(asset => asset.relativePath)).toEqual(['images/hero.png', 'data.json']);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('should refuse to delete the assets when no source file was scanned', async () => {
+    const report = await findUnusedAssets(config, { sources: [path.join(rootDir, 'src/**/*.tsx')] });
+
+    expect(report.unused).toHaveLength(4);
+    expect(deleteUnusedAssets(report, true)).toHaveLength(4);
+    expect(() => deleteUnusedAssets(report)).toThrow(NoSourceFilesError);
+    expect(fs.readdirSync(path.join(rootDir, 'public', 'images'))).toHaveLength(2);
+  });
+
+  describe('formatBytes', () => {
+    it('should format sizes with units', () => {
+      expect(formatBytes(512)).toBe('512 B');
+      expect(formatBytes(1536)).toBe('1.5 KB');
+      expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+    });
+  });
+});
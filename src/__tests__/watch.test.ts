@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GenerateResult, PublicDirNotFoundError } from '../api';
+import { DEFAULT_JSON_CONFIG } from '../config';
+import { createLogger } from '../logger';
+import { AssetWatcher, watchAssets } from '../watch';
+import { JsonConfig } from '../types';
+
+describe('Watch Module', () => {
+  let rootDir: string;
+  let config: JsonConfig;
+  let watcher: AssetWatcher | undefined;
+  let results: GenerateResult[];
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let elapsed = 0; !condition(); elapsed += 20) {
+      if (elapsed > 5000) {
+        throw new Error('Timed out waiting for the watcher');
+      }
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+  };
+
+  const lastAssetNames = () => results[results.length - 1].assets.map(asset => asset.name);
+
+  const start = async (watchedConfig: JsonConfig, configPath?: string) => {
+    watcher = await watchAssets(watchedConfig, {
+      configPath,
+      debounceMs: 50,
+      logger: createLogger({ level: 'silent' }),
+      onGenerate: result => results.push(result)
+    });
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'asset-link-watch-'));
+    fs.mkdirSync(path.join(rootDir, 'public'), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, 'public', 'logo.svg'), '<svg></svg>');
+    results = [];
+
+    config = {
+      ...DEFAULT_JSON_CONFIG,
+      publicDir: path.join(rootDir, 'public'),
+      outputFile: path.join(rootDir, 'generated', 'assetPaths.ts'),
+      excludePatterns: ['**/*.tmp']
+    };
+  });
+
+  afterEach(async () => {
+    await watcher?.close();
+    watcher = undefined;
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should generate once, then batch the events of many files', async () => {
+    await start(config);
+    expect(results).toHaveLength(1);
+    expect(results[0].written).toBe(true);
+
+    for (let i = 0; i < 10; i++) {
+      fs.writeFileSync(path.join(rootDir, 'public', `image${i}.png`), 'png');
+    }
+    await waitFor(() => results.length > 1 && lastAssetNames().length === 11);
+
+    expect(results.length).toBeLessThan(5);
+  });
+
+  it('should drop the files of removed directories', async () => {
+    fs.mkdirSync(path.join(rootDir, 'public', 'icons'));
+    fs.writeFileSync(path.join(rootDir, 'public', 'icons', 'home.svg'), '<svg></svg>');
+    await start(config);
+    expect(lastAssetNames()).toEqual(['icons.home', 'logo']);
+
+    fs.rmSync(path.join(rootDir, 'public', 'icons'), { recursive: true });
+    await waitFor(() => lastAssetNames().length === 1);
+
+    expect(lastAssetNames()).toEqual(['logo']);
+  });
+
+  it('should not write the output file when it is unchanged', async () => {
+    await start(config);
+
+    fs.writeFileSync(path.join(rootDir, 'public', 'logo.svg'), '<svg><path /></svg>');
+    await waitFor(() => results.length > 1);
+
+    expect(results[1].changed).toBe(false);
+    expect(results[1].written).toBe(false);
+  });
+
+  it('should ignore files matching excludePatterns', async () => {
+    await start(config);
+
+    fs.writeFileSync(path.join(rootDir, 'public', 'draft.tmp'), 'tmp');
+    fs.writeFileSync(path.join(rootDir, 'public', 'icon.svg'), '<svg></svg>');
+    await waitFor(() => results.length > 1);
+    await watcher!.flush();
+
+    expect(results[results.length - 1].files.excluded).toEqual([]);
+    expect(lastAssetNames()).toEqual(['icon', 'logo']);
+  });
+
+  it('should reload the configuration when it changes', async () => {
+    const configPath = path.join(rootDir, 'asset-link.config.json');
+    fs.writeFileSync(configPath, JSON.stringify(config));
+    await start(config, configPath);
+
+    fs.writeFileSync(configPath, JSON.stringify({ ...config, namingStrategy: 'PascalCase' }));
+    await waitFor(() => results.length > 1);
+
+    expect(lastAssetNames()).toEqual(['Logo']);
+  });
+
+  it('should keep watching the assets when the new configuration is invalid', async () => {
+    const configPath = path.join(rootDir, 'asset-link.config.json');
+    const errors: unknown[] = [];
+    fs.writeFileSync(configPath, JSON.stringify(config));
+    watcher = await watchAssets(config, {
+      configPath,
+      debounceMs: 50,
+      logger: createLogger({ level: 'silent' }),
+      onGenerate: result => results.push(result),
+      onError: error => errors.push(error)
+    });
+
+    fs.writeFileSync(configPath, JSON.stringify({ ...config, publicDir: path.join(rootDir, 'missing') }));
+    await waitFor(() => errors.length > 0);
+    expect(errors[0]).toBeInstanceOf(PublicDirNotFoundError);
+
+    fs.writeFileSync(path.join(rootDir, 'public', 'icon.svg'), '<svg></svg>');
+    await waitFor(() => lastAssetNames().length === 2);
+    expect(lastAssetNames()).toEqual(['icon', 'logo']);
+  });
+});
@@ -0,0 +1,280 @@
+import fs from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { AssetEntry, AssetImageData, Config, ExcludedAsset, ResponsiveVariant } from './types';
+import { ConfigError, resolveConfigEntries } from './config';
+import { AssetEntryCache, buildAssetTree, generateTreeCode } from './generator';
+import { flattenAssetTree } from './tree';
+import { NameIssue } from './naming';
+import { createPluginContext, runEmitHooks, runScanHooks } from './plugins';
+import { getSrcSet } from './responsive';
+import { AssetSvg } from './svg';
+import { InlinedAsset } from './inline';
+import { AssetManifest, createAssetManifest, getManifestFile } from './manifest';
+
+/**
+ * Options of the programmatic generate() API
+ */
+export interface GenerateOptions {
+  /**
+   * Whether to write the output file when its content changed (default: true)
+   */
+  write?: boolean;
+  /**
+   * Files to process instead of scanning the public directory
+   */
+  files?: string[];
+  /**
+   * Entries computed by a previous generation with the same configuration, reused and updated
+   */
+  cache?: AssetEntryCache;
+}
+
+/**
+ * A variable emitted in the generated file
+ */
+export interface GeneratedAsset {
+  /**
+   * Dotted path of the variable in the generated tree, e.g. images.logo
+   */
+  name: string;
+  filePath: string;
+  relativePath: string;
+  /**
+   * Path value of the file, assigned to the variable unless the file is inlined
+   */
+  value: string;
+  /**
+   * Data URI assigned to the variable instead of the path value, when the file is inlined
+   */
+  dataUri?: string;
+  image?: AssetImageData;
+  /**
+   * Variants of a localized asset keyed by locale, the asset itself being the default one
+   */
+  locales?: Record<string, Pick<GeneratedAsset, 'filePath' | 'relativePath' | 'value' | 'dataUri' | 'image'>>;
+  /**
+   * Variants of a themed asset keyed by theme, the asset itself being the default one
+   */
+  themes?: Record<string, Pick<GeneratedAsset, 'filePath' | 'relativePath' | 'value' | 'dataUri' | 'image'>>;
+  /**
+   * srcset attribute of a responsive image
+   */
+  srcSet?: string;
+  /**
+   * Density or width variants of a responsive image, ordered by size
+   */
+  variants?: Array<Pick<GeneratedAsset, 'filePath' | 'relativePath' | 'value' | 'dataUri' | 'image'> & { descriptor: string }>;
+  /**
+   * Markup string or component emitted next to the path constant of an SVG file
+   */
+  svg?: AssetSvg;
+  /**
+   * Type inferred from the content of a JSON file
+   */
+  jsonType?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Structured result of a generation
+ */
+export interface GenerateResult {
+  /**
+   * Name of the configuration entry
+   */
+  name?: string;
+  /**
+   * Absolute path of the scanned public directory
+   */
+  publicDir: string;
+  /**
+   * Absolute path of the output file
+   */
+  outputFile: string;
+  files: {
+    included: string[];
+    excluded: ExcludedAsset[];
+  };
+  assets: GeneratedAsset[];
+  /**
+   * Variable names changed to avoid collisions or invalid identifiers
+   */
+  renamed: NameIssue[];
+  /**
+   * Files exported as data URIs, with the bytes they add to the output file
+   */
+  inlined: InlinedAsset[];
+  warnings: string[];
+  /**
+   * Generated code of the output file
+   */
+  code: string;
+  /**
+   * Whether the generated code differs from the output file on disk
+   */
+  changed: boolean;
+  /**
+   * Whether the output file was written
+   */
+  written: boolean;
+  /**
+   * Additional files emitted by plugins
+   */
+  emittedFiles: Array<{ filePath: string; changed: boolean; written: boolean }>;
+  /**
+   * Manifest of the included assets, when emitManifest is enabled
+   */
+  manifest?: AssetManifest & { filePath: string; changed: boolean; written: boolean };
+}
+
+/**
+ * Thrown when the configured public directory does not exist
+ */
+export class PublicDirNotFoundError extends Error {
+  constructor(public readonly publicDir: string) {
+    super(`Public directory does not exist: ${publicDir}`);
+    this.name = 'PublicDirNotFoundError';
+  }
+}
+
+/**
+ * Lists every file of the public directory, including the ones matching excludePatterns
+ * so that their exclusion can be reported
+ */
+export async function findAssetFiles(config: Config): Promise<string[]> {
+  const publicDirAbs = path.resolve(process.cwd(), config.publicDir);
+  if (!fs.existsSync(publicDirAbs)) {
+    throw new PublicDirNotFoundError(publicDirAbs);
+  }
+
+  return glob('**/*', { cwd: publicDirAbs, dot: true, nodir: true, absolute: true });
+}
+
+/**
+ * Lists the locale or theme variants of an entry in the result
+ */
+function toGeneratedKeyedVariants(keyedVariants: Record<string, AssetEntry>): GeneratedAsset['locales'] {
+  const variants: GeneratedAsset['locales'] = {};
+  Object.keys(keyedVariants).forEach(key => {
+    const { filePath, relativePath, value, dataUri, image } = keyedVariants[key];
+    variants[key] = { filePath, relativePath, value, dataUri, image };
+  });
+  return variants;
+}
+
+/**
+ * Lists the responsive variants of an entry in the result
+ */
+function toGeneratedVariants(variants: ResponsiveVariant[]): GeneratedAsset['variants'] {
+  return variants.map(({ filePath, relativePath, value, dataUri, image, descriptor }) =>
+    ({ filePath, relativePath, value, dataUri, image, descriptor }));
+}
+
+/**
+ * Generates the asset variables file for a configuration
+ *
+ * Nothing is written to stdout: every decision is reported in the result.
+ * @throws PublicDirNotFoundError if the public directory does not exist
+ * @throws NameCollisionError if the 'error' collision strategy rejects any name
+ * @throws PluginError if a plugin hook fails
+ * @throws ConfigError if runtimePrefixEnv is used with an output format that only holds literals, or svg with
+ * a format without a tree of constants
+ */
+export async function generate(config: Config, options: GenerateOptions = {}): Promise<GenerateResult> {
+  const format = config.outputFormat ?? 'namespace';
+  if (config.runtimePrefixEnv && (format === 'union' || format === 'enum')) {
+    throw new ConfigError(`runtimePrefixEnv cannot be used with the '${format}' output format, whose values must be literals`);
+  }
+  if (config.svg && format !== 'namespace' && format !== 'object') {
+    throw new ConfigError(`svg cannot be used with the '${format}' output format, which has no place next to the path constants`);
+  }
+
+  const context = createPluginContext(config);
+  const files = await runScanHooks(options.files ?? await findAssetFiles(config), context);
+  const assetTree = buildAssetTree(files, config, context, options.cache);
+  const code = await runEmitHooks(generateTreeCode(assetTree.tree, config), context);
+
+  const outputFile = path.resolve(process.cwd(), config.outputFile);
+  const { changed, written } = writeIfChanged(outputFile, code, options.write !== false);
+  const emittedFiles = Array.from(context.emittedFiles, ([filePath, content]) => ({
+    filePath,
+    ...writeIfChanged(filePath, content, options.write !== false)
+  }));
+
+  let manifest: GenerateResult['manifest'];
+  if (config.emitManifest) {
+    const { assets } = createAssetManifest(assetTree.tree);
+    const manifestFile = getManifestFile(config);
+    manifest = {
+      assets,
+      filePath: manifestFile,
+      ...writeIfChanged(manifestFile, JSON.stringify({ assets }, null, 2) + '\n', options.write !== false)
+    };
+  }
+
+  return {
+    name: config.name,
+    publicDir: path.resolve(process.cwd(), config.publicDir),
+    outputFile,
+    files: {
+      included: assetTree.included,
+      excluded: assetTree.excluded
+    },
+    assets: flattenAssetTree(assetTree.tree).map(({ path: names, entry }) => ({
+      name: names.join('.'),
+      filePath: entry.filePath,
+      relativePath: entry.relativePath,
+      value: entry.value,
+      dataUri: entry.dataUri,
+      image: entry.image,
+      locales: entry.locales && toGeneratedKeyedVariants(entry.locales),
+      themes: entry.themes && toGeneratedKeyedVariants(entry.themes),
+      srcSet: entry.variants && getSrcSet(entry.variants),
+      variants: entry.variants && toGeneratedVariants(entry.variants),
+      svg: entry.svg,
+      jsonType: entry.jsonType,
+      metadata: entry.metadata
+    })),
+    renamed: assetTree.renamed,
+    inlined: assetTree.inlined,
+    warnings: assetTree.warnings,
+    code,
+    changed,
+    written,
+    emittedFiles,
+    manifest
+  };
+}
+
+/**
+ * Generates the output file of every entry of a configuration
+ * @param names Only generate the entries with these names
+ */
+export async function generateEntries(
+  config: Config,
+  options: GenerateOptions = {},
+  names?: string[]
+): Promise<GenerateResult[]> {
+  const results: GenerateResult[] = [];
+  for (const entry of resolveConfigEntries(config, names)) {
+    results.push(await generate(entry, options));
+  }
+  return results;
+}
+
+/**
+ * Writes a file unless it already has the given content
+ */
+function writeIfChanged(filePath: string, content: string, write: boolean): { changed: boolean; written: boolean } {
+  const previousContent = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+  const changed = previousContent !== content;
+  const written = changed && write;
+
+  if (written) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  }
+
+  return { changed, written };
+}
@@ -0,0 +1,124 @@
+/**
+ * Helpers to compare a generated asset file with the one on disk
+ */
+
+/**
+ * Differences between two generated asset files, keyed by dotted variable path
+ */
+export interface AssetDiff {
+  added: string[];
+  removed: string[];
+  changed: Array<{ name: string; before: string; after: string }>;
+}
+
+/**
+ * Extracts the exported variables of a generated file as dotted path -> value text,
+ * for every output format
+ */
+export function extractExports(code: string): Map<string, string> {
+  const exports = new Map<string, string>();
+  // Names of the enclosing namespaces or objects, or null for blocks that do not hold variables
+  const scopes: Array<string | null> = [];
+  const isInVariableScope = () => scopes.length > 0 && !scopes.includes(null);
+  const unquote = (key: string) => key.replace(/^'(.*)'$/, '$1').replace(/\\'/g, "'");
+
+  code.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+
+    if (line.startsWith('}')) {
+      scopes.pop();
+      return;
+    }
+
+    // Namespaces, objects and enums: export namespace images {, export const assets = {, export enum Asset {
+    const blockMatch = line.match(/^export (?:namespace|enum) ([\w$]+) \{$/) ?? line.match(/^export const ([\w$]+) = \{$/);
+    if (blockMatch) {
+      scopes.push(blockMatch[1]);
+      return;
+    }
+
+    const constMatch = line.match(/^export const ([\w$]+)(?:: [\w$.<>]+)? = (.*);$/);
+    if (constMatch && !scopes.includes(null)) {
+      exports.set([...scopes, constMatch[1]].join('.'), constMatch[2]);
+      return;
+    }
+
+    // Members of a string-literal union: | '/images/logo.png'
+    const unionMatch = line.match(/^\| (.*?);?$/);
+    if (unionMatch) {
+      exports.set(unquote(unionMatch[1]), unionMatch[1]);
+      return;
+    }
+
+    if (isInVariableScope()) {
+      // Nested objects: images: {
+      const nestedMatch = line.match(/^([\w$]+|'(?:[^'\\]|\\.)*'): \{$/);
+      if (nestedMatch) {
+        scopes.push(unquote(nestedMatch[1]));
+        return;
+      }
+
+      // Object properties and enum members: logo: '/logo.png', or logo = '/logo.png',
+      const memberMatch = line.match(/^([\w$]+|'(?:[^'\\]|\\.)*')(?:: | = )(.*),$/);
+      if (memberMatch) {
+        exports.set([...scopes, unquote(memberMatch[1])].join('.'), memberMatch[2]);
+        return;
+      }
+    }
+
+    if (line.endsWith('{')) {
+      scopes.push(null);
+    }
+  });
+
+  return exports;
+}
+
+/**
+ * Compares the exported variables of two generated files
+ */
+export function diffGeneratedCode(previous: string, next: string): AssetDiff {
+  const before = extractExports(previous);
+  const after = extractExports(next);
+  const diff: AssetDiff = { added: [], removed: [], changed: [] };
+
+  after.forEach((value, name) => {
+    if (!before.has(name)) {
+      diff.added.push(name);
+    } else if (before.get(name) !== value) {
+      diff.changed.push({ name, before: before.get(name)!, after: value });
+    }
+  });
+  before.forEach((_, name) => {
+    if (!after.has(name)) {
+      diff.removed.push(name);
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * Formats a diff as a readable summary
+ */
+export function formatAssetDiff(diff: AssetDiff): string {
+  const lines: string[] = [];
+
+  if (diff.added.length > 0) {
+    lines.push(`Added (${diff.added.length}):`, ...diff.added.map(name => `  + ${name}`));
+  }
+  if (diff.removed.length > 0) {
+    lines.push(`Removed (${diff.removed.length}):`, ...diff.removed.map(name => `  - ${name}`));
+  }
+  if (diff.changed.length > 0) {
+    lines.push(
+      `Changed (${diff.changed.length}):`,
+      ...diff.changed.map(change => `  ~ ${change.name}: ${change.before} -> ${change.after}`)
+    );
+  }
+  if (lines.length === 0) {
+    lines.push('No variable changed, the file differs in formatting or ordering only.');
+  }
+
+  return lines.join('\n');
+}
@@ -1,6 +1,12 @@
 import fs from 'fs';
 import path from 'path';
-import { BaseConfig, JsonConfig, TsConfig, Config, isTsConfig } from './types';
+import { createRequire } from 'module';
+import ts from 'typescript';
+import { BaseConfig, JsonConfig, TsConfig, Config, UserConfig, isTsConfig } from './types';
+import { createLogger, Logger } from './logger';
+import { importModule } from './loader';
+import { ConfigIssue, validateConfig } from './schema';
+import { ENVIRONMENT_ENV_VAR } from './prefix';
 
 // Default JSON configuration
 export const DEFAULT_JSON_CONFIG: JsonConfig = {
@@ -10,7 +16,15 @@ export const DEFAULT_JSON_CONFIG: JsonConfig = {
   namingStrategy: 'camelCase',
   includeExtensionsInNames: false,
   variablePrefix: '',
-  groupByDirectory: true
+  groupByDirectory: true,
+  outputFormat: 'namespace',
+  emitPathHelpers: false,
+  collisionStrategy: 'suffix-extension',
+  emitImageData: false,
+  blurPlaceholder: false,
+  contentHash: false,
+  contentHashStrategy: 'query',
+  contentHashLength: 8
 };
 
 /**
@@ -45,60 +59,371 @@ export const DEFAULT_TS_CONFIG: TsConfig = {
 };
 
 /**
- * Loads configuration from a file (either JSON or TypeScript)
+ * Thrown when a configuration cannot be used
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Thrown when a configuration has invalid or unknown options, listing every problem
+ */
+export class ConfigValidationError extends ConfigError {
+  constructor(public readonly configFile: string, public readonly issues: ConfigIssue[]) {
+    super(`Invalid configuration in ${configFile}:\n${issues
+      .map(issue => `  - ${issue.path ? issue.path + ': ' : ''}${issue.message}`)
+      .join('\n')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
+
+/**
+ * Names of the configuration files discovered in each directory, by priority
+ */
+export const CONFIG_FILE_NAMES = [
+  'asset-link.config.ts',
+  'asset-link.config.mts',
+  'asset-link.config.cts',
+  'asset-link.config.js',
+  'asset-link.config.mjs',
+  'asset-link.config.cjs',
+  'asset-link.config.json'
+];
+
+/**
+ * Key of the configuration in package.json
+ */
+export const PACKAGE_JSON_KEY = 'assetLink';
+
+const MODULE_CONFIG_PATTERN = /\.(?:ts|mts|cts|js|mjs|cjs)$/;
+
+/**
+ * Typed helper for TypeScript and JavaScript configuration files
+ */
+export function defineConfig(config: UserConfig): UserConfig {
+  return config;
+}
+
+/**
+ * Searches for a configuration file from a directory up to the filesystem root: one of
+ * CONFIG_FILE_NAMES, or a package.json with an assetLink key
+ * @returns The absolute path of the configuration file, or undefined if none was found
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | undefined {
+  let dir = path.resolve(startDir);
+
+  for (;;) {
+    const configFile = CONFIG_FILE_NAMES
+      .map(name => path.join(dir, name))
+      .find(filePath => fs.existsSync(filePath));
+    if (configFile) {
+      return configFile;
+    }
+
+    const packageJson = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJson) && readPackageJsonConfig(packageJson) !== undefined) {
+      return packageJson;
+    }
+
+    const parentDir = path.dirname(dir);
+    if (parentDir === dir) {
+      return undefined;
+    }
+    dir = parentDir;
+  }
+}
+
+/**
+ * Reads the assetLink key of a package.json, undefined if it has none
+ */
+function readPackageJsonConfig(packageJson: string): unknown {
+  try {
+    return JSON.parse(fs.readFileSync(packageJson, 'utf8'))[PACKAGE_JSON_KEY];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks the syntax of a TypeScript or JavaScript configuration, so that errors report their line
+ */
+function checkModuleSyntax(configFile: string, source: string): void {
+  const { diagnostics } = ts.transpileModule(source, {
+    reportDiagnostics: true,
+    fileName: configFile,
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+  });
+
+  const syntaxError = diagnostics?.find(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error);
+  if (syntaxError) {
+    const message = ts.flattenDiagnosticMessageText(syntaxError.messageText, '\n');
+    const line = syntaxError.file && syntaxError.start !== undefined
+      ? syntaxError.file.getLineAndCharacterOfPosition(syntaxError.start).line + 1
+      : undefined;
+    throw new Error(line !== undefined ? `${message} (line ${line})` : message);
+  }
+}
+
+/**
+ * Checks whether a configuration is an ES module: .mjs and .mts files, and .js and .ts files
+ * of packages with "type": "module", as Node.js decides
+ */
+function isEsModuleConfig(configFile: string): boolean {
+  if (/\.m(?:js|ts)$/.test(configFile)) {
+    return true;
+  }
+  if (!/\.[jt]s$/.test(configFile)) {
+    return false;
+  }
+
+  for (let dir = path.dirname(configFile); ; dir = path.dirname(dir)) {
+    const packageJson = path.join(dir, 'package.json');
+    if (fs.existsSync(packageJson)) {
+      try {
+        return JSON.parse(fs.readFileSync(packageJson, 'utf8')).type === 'module';
+      } catch {
+        return false;
+      }
+    }
+    if (path.dirname(dir) === dir) {
+      return false;
+    }
+  }
+}
+
+/**
+ * Resolves a relative require of a TypeScript module, without extension, with a .js extension
+ * or with its own .ts extension, as with the TypeScript compiler
+ */
+function resolveTypeScriptRequire(parentFile: string, specifier: string): string | undefined {
+  if (!/^\.{1,2}\//.test(specifier)) {
+    return undefined;
+  }
+  const basePath = path.resolve(path.dirname(parentFile), specifier);
+  if (/\.ts$/.test(basePath)) {
+    return fs.existsSync(basePath) ? basePath : undefined;
+  }
+  if (fs.existsSync(basePath) && fs.statSync(basePath).isFile()) {
+    return undefined;
+  }
+  return [basePath.replace(/\.js$/, '.ts'), basePath + '.ts', path.join(basePath, 'index.ts')]
+    .find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile());
+}
+
+/**
+ * Evaluates a module transpiled to CommonJS by the TypeScript compiler, which also accepts ESM
+ * syntax in .js and .ts files of CommonJS packages. The TypeScript modules it requires are
+ * transpiled the same way, once per configuration load.
+ */
+function evaluateCommonJsModule(
+  filePath: string,
+  source: string,
+  modules: Map<string, { exports: Record<string, unknown> }>
+): Record<string, unknown> {
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filePath,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true
+    }
+  });
+
+  const commonJsModule: { exports: Record<string, unknown> } = { exports: {} };
+  modules.set(filePath, commonJsModule);
+
+  const nativeRequire = createRequire(filePath);
+  const moduleRequire = Object.assign((specifier: string): unknown => {
+    const typeScriptFile = resolveTypeScriptRequire(filePath, specifier);
+    if (!typeScriptFile) {
+      return nativeRequire(specifier);
+    }
+    const required = modules.get(typeScriptFile)
+      ?? { exports: evaluateCommonJsModule(typeScriptFile, fs.readFileSync(typeScriptFile, 'utf8'), modules) };
+    return required.exports;
+  }, nativeRequire);
+
+  new Function('exports', 'require', 'module', '__filename', '__dirname', outputText)(
+    commonJsModule.exports,
+    moduleRequire,
+    commonJsModule,
+    filePath,
+    path.dirname(filePath)
+  );
+  return commonJsModule.exports;
+}
+
+/**
+ * Loads a CommonJS configuration, along with the TypeScript modules it requires
+ */
+function loadCommonJsConfig(configFile: string, source: string): unknown {
+  const exported = evaluateCommonJsModule(configFile, source, new Map());
+  return exported.__esModule || 'default' in exported ? exported.default : exported;
+}
+
+/**
+ * Loads a TypeScript or JavaScript configuration: ES modules with import(), TypeScript being
+ * compiled to ES modules on the fly along with the TypeScript files it imports, and CommonJS
+ * modules with a transpiled require
  */
-export function loadConfig(configPath: string): Config {
-  const configFile = path.resolve(process.cwd(), configPath);
+async function loadModuleConfig(configFile: string): Promise<unknown> {
+  const source = fs.readFileSync(configFile, 'utf8');
+  checkModuleSyntax(configFile, source);
+
+  if (!isEsModuleConfig(configFile)) {
+    return loadCommonJsConfig(configFile, source);
+  }
+  return (await importModule(configFile)).default;
+}
+
+/**
+ * Reads the raw configuration exported or contained by a file
+ */
+async function readConfigFile(configFile: string): Promise<unknown> {
+  if (MODULE_CONFIG_PATTERN.test(configFile)) {
+    return loadModuleConfig(configFile);
+  }
+
+  const parsed = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+  if (configFile.endsWith('package.json')) {
+    if (parsed?.[PACKAGE_JSON_KEY] === undefined) {
+      throw new Error(`no "${PACKAGE_JSON_KEY}" key found`);
+    }
+    return parsed[PACKAGE_JSON_KEY];
+  }
+  return parsed;
+}
+
+/**
+ * Loads configuration from a file (TypeScript, JavaScript, JSON or package.json)
+ * @param configPath Path of the configuration file; discovered with findConfigFile when omitted
+ * @throws ConfigError if the file exists but cannot be loaded
+ * @throws ConfigValidationError if the configuration has invalid or unknown options
+ */
+export async function loadConfig(configPath?: string, logger: Logger = createLogger()): Promise<Config> {
+  const configFile = configPath !== undefined ? path.resolve(process.cwd(), configPath) : findConfigFile();
   
   // Check if the file exists
+  if (configFile === undefined) {
+    logger.warn('No configuration file found, using default configuration.', { event: 'config-not-found' });
+    return DEFAULT_JSON_CONFIG;
+  }
   if (!fs.existsSync(configFile)) {
-    console.warn(`Configuration file not found at ${configFile}, using default configuration.`);
+    logger.warn(`Configuration file not found at ${configFile}, using default configuration.`, {
+      event: 'config-not-found',
+      configFile
+    });
     return DEFAULT_JSON_CONFIG;
   }
   
-  // Check file extension - TypeScript or JSON?
-  if (configFile.endsWith('.ts') || configFile.endsWith('.js')) {
-    try {
-      // Delete require cache to get fresh config if it changed
-      delete require.cache[configFile];
-      
-      // Import TypeScript/JavaScript config
-      const importedConfig = require(configFile);
-      const config = importedConfig.default || importedConfig;
-      
-      if (isTsConfig(config)) {
-        // It's a TypeScript configuration with callbacks
-        return {
-          ...DEFAULT_TS_CONFIG,
-          ...config
-        };
-      } else {
-        // It's a JSON-like configuration in TypeScript format
-        return {
-          ...DEFAULT_JSON_CONFIG,
-          ...config
-        };
-      }
-    } catch (error) {
-      console.error(`Error loading TypeScript configuration file: ${error}`);
-      console.warn('Using default configuration.');
-      return DEFAULT_JSON_CONFIG;
-    }
-  } else {
-    // Assume it's a JSON file
-    try {
-      const configContent = fs.readFileSync(configFile, 'utf8');
-      const parsedConfig = JSON.parse(configContent);
-      
-      // Merge with default JSON config
-      return {
-        ...DEFAULT_JSON_CONFIG,
-        ...parsedConfig
-      };
-    } catch (error) {
-      console.error(`Error loading JSON configuration file: ${error}`);
-      console.warn('Using default configuration.');
-      return DEFAULT_JSON_CONFIG;
-    }
+  let config: unknown;
+  try {
+    config = await readConfigFile(configFile);
+  } catch (error) {
+    throw new ConfigError(
+      `Failed to load configuration file ${configFile}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  if (config === null || typeof config !== 'object' || Array.isArray(config)) {
+    throw new ConfigError(`Configuration file ${configFile} must export a configuration object`);
+  }
+  const issues = validateConfig(config);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(configFile, issues);
+  }
+  logger.debug(`Loaded configuration from ${configFile}`, { event: 'config-loaded', configFile });
+
+  // The $schema reference only serves editors
+  const { $schema, ...userConfig } = config as UserConfig & { $schema?: string };
+  
+  if (isTsConfig(userConfig as Config)) {
+    // It's a TypeScript configuration with callbacks
+    return {
+      ...DEFAULT_TS_CONFIG,
+      ...userConfig
+    } as TsConfig;
+  }
+  // It's a JSON configuration, or a JSON-like configuration in a module
+  return {
+    ...DEFAULT_JSON_CONFIG,
+    ...userConfig
+  } as JsonConfig;
+}
+
+/**
+ * Applies the overrides of an environment to a resolved entry
+ * @throws ConfigError if the entry has environments but not this one
+ */
+function applyEnvironment(entry: Config, environment: string | undefined): Config {
+  const { environments, ...config } = entry;
+  if (!environment || !environments) {
+    return config as Config;
+  }
+
+  const overrides = environments[environment];
+  if (!overrides) {
+    throw new ConfigError(
+      `Unknown environment: ${environment}${entry.name ? ` in entry ${entry.name}` : ''} `
+        + `(available environments: ${Object.keys(environments).join(', ') || 'none'})`
+    );
+  }
+  return { ...config, ...overrides } as Config;
+}
+
+/**
+ * Merges the environments of an entry into the top-level ones, per environment name
+ */
+function mergeEnvironments(
+  defaults: Config['environments'],
+  overrides: Config['environments']
+): Config['environments'] {
+  if (!defaults || !overrides) {
+    return overrides ?? defaults;
+  }
+  const merged = { ...defaults };
+  Object.keys(overrides).forEach(environment => {
+    merged[environment] = { ...defaults[environment], ...overrides[environment] };
+  });
+  return merged;
+}
+
+/**
+ * Resolves the entries of a configuration, each one inheriting the top-level fields and
+ * environments, with the overrides of the selected environment applied
+ * @param names Only return the entries with these names
+ * @param environment Environment to apply, ASSET_LINK_ENV by default
+ * @returns The configuration itself when it has no entries
+ * @throws ConfigError if a name does not match any entry, or the environment is unknown
+ */
+export function resolveConfigEntries(
+  config: Config,
+  names?: string[],
+  environment: string | undefined = process.env[ENVIRONMENT_ENV_VAR]
+): Config[] {
+  const { entries, ...defaults } = config;
+  const resolved: Config[] = entries && entries.length > 0
+    ? entries.map(entry => ({
+      ...defaults,
+      ...entry,
+      environments: mergeEnvironments(defaults.environments, entry.environments)
+    }) as Config)
+    : [defaults as Config];
+
+  if (!names || names.length === 0) {
+    return resolved.map(entry => applyEnvironment(entry, environment));
+  }
+
+  const unknownNames = names.filter(name => !resolved.some(entry => entry.name === name));
+  if (unknownNames.length > 0) {
+    const knownNames = resolved.map(entry => entry.name).filter(Boolean);
+    throw new ConfigError(
+      `Unknown entry: ${unknownNames.join(', ')} (available entries: ${knownNames.join(', ') || 'none'})`
+    );
   }
-}
\ No newline at end of file
+  return resolved
+    .filter(entry => entry.name !== undefined && names.includes(entry.name))
+    .map(entry => applyEnvironment(entry, environment));
+}
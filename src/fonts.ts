@@ -0,0 +1,307 @@
+import path from 'path';
+import { AssetGroup } from './types';
+import { flattenAssetFiles, getAssetUrl } from './tree';
+import { matchesExcludePatterns } from './patterns';
+import { sanitizeIdentifier } from './naming';
+import { toStringLiteral } from './formats';
+
+/**
+ * What is generated from the font files
+ * - 'css': a stylesheet of @font-face rules
+ * - 'next-font': a module declaring one next/font/local font per family
+ * - 'both': the stylesheet and the module
+ */
+export type FontOutput = 'css' | 'next-font' | 'both';
+
+export const FONT_OUTPUTS: FontOutput[] = ['css', 'next-font', 'both'];
+
+/**
+ * Values of the font-display descriptor
+ */
+export const FONT_DISPLAYS = ['auto', 'block', 'swap', 'fallback', 'optional'];
+
+export const FONT_STYLES = ['normal', 'italic'];
+
+/**
+ * Family, weight or style forced on the font files matching a pattern
+ */
+export interface FontOverride {
+  /**
+   * Pattern of the font files, relative to the public directory
+   */
+  match: string;
+  family?: string;
+  /**
+   * Weight or range of weights of variable fonts, e.g. '700' or '100 900'
+   */
+  weight?: string;
+  style?: 'normal' | 'italic';
+}
+
+/**
+ * Options of the font stylesheet and module
+ */
+export interface FontOptions {
+  output: FontOutput;
+  /**
+   * Patterns of the font files to handle, relative to the public directory (default: every woff2, woff, ttf and otf file)
+   */
+  include?: string[];
+  /**
+   * Path of the stylesheet, relative to the project root (default: <output file name>.fonts.css next to the output file)
+   */
+  cssFile?: string;
+  /**
+   * Path of the module, relative to the project root (default: <output file name>.fonts.ts next to the output file)
+   */
+  moduleFile?: string;
+  /**
+   * font-display of every font (default: 'swap')
+   */
+  display?: string;
+  /**
+   * Rules applied in order to the font files they match, overriding what is inferred from their names
+   */
+  overrides?: FontOverride[];
+}
+
+/**
+ * Formats of the font files, in order of preference in the src lists
+ */
+const FONT_FORMATS: Record<string, string> = {
+  '.woff2': 'woff2',
+  '.woff': 'woff',
+  '.ttf': 'truetype',
+  '.otf': 'opentype'
+};
+
+/**
+ * Weights of the weight names found in font file names
+ */
+const WEIGHT_NAMES: Record<string, string> = {
+  thin: '100',
+  hairline: '100',
+  extralight: '200',
+  ultralight: '200',
+  light: '300',
+  regular: '400',
+  normal: '400',
+  book: '400',
+  medium: '500',
+  semibold: '600',
+  demibold: '600',
+  bold: '700',
+  extrabold: '800',
+  ultrabold: '800',
+  black: '900',
+  heavy: '900'
+};
+
+/**
+ * Family, weight and style of a font file
+ */
+export interface FontDescriptor {
+  family: string;
+  weight: string;
+  style: string;
+}
+
+/**
+ * A font file with its descriptors and URL
+ */
+export interface FontFile extends FontDescriptor {
+  filePath: string;
+  relativePath: string;
+  /**
+   * URL of the file, as assigned to its variable
+   */
+  url: string;
+  /**
+   * Format of the file in the src descriptor, e.g. 'woff2' or 'truetype'
+   */
+  format: string;
+}
+
+/**
+ * Checks whether a file is a font handled by the font output
+ */
+export function isFontFile(relativePath: string, options: Pick<FontOptions, 'include'> = {}): boolean {
+  return FONT_FORMATS[path.extname(relativePath).toLowerCase()] !== undefined
+    && (!options.include || matchesExcludePatterns(relativePath, options.include));
+}
+
+/**
+ * Reads the weight and style of a part of a file name, e.g. 700, Bold, BoldItalic or italic
+ * @returns undefined when the part describes neither
+ */
+function parseFontVariant(part: string): { weight?: string; style?: string } | undefined {
+  const [, name, italic] = /^(.*?)(italic|oblique)?$/.exec(part.toLowerCase())!;
+  const style = italic ? 'italic' : undefined;
+  if (!name) {
+    return style ? { style } : undefined;
+  }
+  const weight = /^[1-9]00$/.test(name) ? name : WEIGHT_NAMES[name];
+  return weight ? { weight, style } : undefined;
+}
+
+/**
+ * Infers the family, weight and style of a font from its file name, e.g. Inter-SemiBoldItalic.woff2,
+ * open-sans-700.woff or roboto-v30-latin-italic.woff2 (the parts after a version are subsets)
+ *
+ * Variable fonts named after their weight axis, e.g. Inter[wght].woff2, cover every weight.
+ */
+export function parseFontFileName(relativePath: string): FontDescriptor {
+  const stem = path.basename(relativePath, path.extname(relativePath));
+  const isVariable = /\[[^\]]*wght[^\]]*\]/i.test(stem);
+  const parts = stem.replace(/\[[^\]]*\]/g, '').split(/[-_\s.]+/).filter(Boolean);
+
+  const familyParts: string[] = [];
+  let weight = isVariable ? '100 900' : '400';
+  let style = 'normal';
+  let inFamily = true;
+
+  for (let index = 0; index < parts.length; index++) {
+    // Semi Bold, Extra Light...
+    const part = /^(semi|demi|extra|ultra)$/i.test(parts[index]) && index + 1 < parts.length
+      ? parts[index] + parts[++index]
+      : parts[index];
+    const variant = familyParts.length > 0 || !inFamily ? parseFontVariant(part) : undefined;
+    if (variant) {
+      weight = variant.weight ?? weight;
+      style = variant.style ?? style;
+      inFamily = false;
+    } else if (familyParts.length > 0 && /^v\d+$/i.test(part)) {
+      inFamily = false;
+    } else if (inFamily) {
+      familyParts.push(part.charAt(0).toUpperCase() + part.slice(1));
+    }
+  }
+
+  return { family: familyParts.join(' ') || stem, weight, style };
+}
+
+/**
+ * Applies the overrides matching a font file, in order
+ */
+function applyFontOverrides(relativePath: string, descriptor: FontDescriptor, overrides: FontOverride[] = []): FontDescriptor {
+  return overrides
+    .filter(override => matchesExcludePatterns(relativePath, [override.match]))
+    .reduce((current, { family, weight, style }) => ({
+      family: family ?? current.family,
+      weight: weight ?? current.weight,
+      style: style ?? current.style
+    }), descriptor);
+}
+
+/**
+ * Lists the font files of the tree with their descriptors, grouped by family then sorted by weight and style
+ */
+export function listFontFiles(tree: AssetGroup, options: FontOptions): FontFile[] {
+  const fonts = flattenAssetFiles(tree)
+    .filter(({ entry }) => isFontFile(entry.relativePath, options))
+    .map(({ entry }): FontFile => ({
+      filePath: entry.filePath,
+      relativePath: entry.relativePath,
+      url: getAssetUrl(entry),
+      format: FONT_FORMATS[path.extname(entry.relativePath).toLowerCase()],
+      ...applyFontOverrides(entry.relativePath, parseFontFileName(entry.relativePath), options.overrides)
+    }));
+
+  const families = Array.from(new Set(fonts.map(font => font.family)));
+  const formats = Object.keys(FONT_FORMATS).map(extension => FONT_FORMATS[extension]);
+  return fonts.sort((a, b) => families.indexOf(a.family) - families.indexOf(b.family)
+    || parseInt(a.weight, 10) - parseInt(b.weight, 10)
+    || FONT_STYLES.indexOf(a.style) - FONT_STYLES.indexOf(b.style)
+    || formats.indexOf(a.format) - formats.indexOf(b.format));
+}
+
+/**
+ * Groups the files of the same family, weight and style, which are the formats of one font face
+ */
+function groupFontFaces(fonts: FontFile[]): FontFile[][] {
+  const faces = new Map<string, FontFile[]>();
+  fonts.forEach(font => {
+    const key = `${font.family}|${font.weight}|${font.style}`;
+    faces.set(key, (faces.get(key) ?? []).concat(font));
+  });
+  return Array.from(faces.values());
+}
+
+/**
+ * Returns the paths of the stylesheet and of the module, next to the output file by default
+ */
+export function getFontFiles(outputFile: string, options: FontOptions): { cssFile: string; moduleFile: string } {
+  const outputPath = path.resolve(process.cwd(), outputFile);
+  const baseName = path.join(path.dirname(outputPath), path.basename(outputPath, path.extname(outputPath)));
+  return {
+    cssFile: options.cssFile ? path.resolve(process.cwd(), options.cssFile) : `${baseName}.fonts.css`,
+    moduleFile: options.moduleFile ? path.resolve(process.cwd(), options.moduleFile) : `${baseName}.fonts.ts`
+  };
+}
+
+/**
+ * Generates a stylesheet with one @font-face rule per family, weight and style, listing every format
+ */
+export function generateFontFaceCss(fonts: FontFile[], options: Pick<FontOptions, 'display'>): string {
+  const rules = groupFontFaces(fonts).map(([font, ...formats]) => `@font-face {
+  font-family: ${toStringLiteral(font.family)};
+  src: ${[font, ...formats].map(file => `url(${toStringLiteral(file.url)}) format(${toStringLiteral(file.format)})`).join(', ')};
+  font-weight: ${font.weight};
+  font-style: ${font.style};
+  font-display: ${options.display ?? 'swap'};
+}
+`);
+
+  return `/**
+ * This file is auto-generated by public-asset-link.
+ * Do not edit this file directly.
+ */
+
+${rules.join('\n')}`;
+}
+
+/**
+ * Generates a module declaring one next/font/local font per family
+ *
+ * next/font only accepts literal options written in the module calling localFont(), so the src
+ * arrays are declared inline rather than imported.
+ */
+export function generateNextFontCode(fonts: FontFile[], moduleFile: string, options: Pick<FontOptions, 'display'>): string {
+  const usedNames = new Set(['localFont']);
+  const families = Array.from(new Set(fonts.map(font => font.family)));
+
+  const declarations = families.map(family => {
+    const baseName = sanitizeIdentifier(family.replace(/[^A-Za-z0-9]+(.)?/g, (_, letter?: string) => letter ? letter.toUpperCase() : '')
+      .replace(/^[A-Z]/, letter => letter.toLowerCase()));
+    let name = baseName;
+    for (let counter = 2; usedNames.has(name); counter++) {
+      name = `${baseName}${counter}`;
+    }
+    usedNames.add(name);
+
+    // Keep a single format per face: next/font does not generate format fallbacks
+    const sources = groupFontFaces(fonts.filter(font => font.family === family)).map(([font]) => {
+      const relativePath = path.relative(path.dirname(moduleFile), font.filePath).replace(/\\/g, '/');
+      const fontPath = relativePath.startsWith('.') ? relativePath : './' + relativePath;
+      return `    { path: ${toStringLiteral(fontPath)}, weight: ${toStringLiteral(font.weight)}, style: ${toStringLiteral(font.style)} },\n`;
+    });
+    const variable = '--font-' + family.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+    return `export const ${name} = localFont({
+  src: [
+${sources.join('')}  ],
+  display: ${toStringLiteral(options.display ?? 'swap')},
+  variable: ${toStringLiteral(variable)},
+});
+`;
+  });
+
+  return `/**
+ * This file is auto-generated by public-asset-link.
+ * Do not edit this file directly.
+ */
+
+import localFont from 'next/font/local';
+
+${declarations.join('\n')}`;
+}
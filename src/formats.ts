@@ -0,0 +1,386 @@
+import { AssetEntry, AssetGroup, ResponsiveVariant } from './types';
+import { flattenAssetTree, flattenAssetValues, getAssetUrl, isAssetEntry } from './tree';
+import { isRootRelativePath } from './prefix';
+import { getSrcSet } from './responsive';
+import { AssetSvg } from './svg';
+import { generateJsonTypeDeclaration, getJsonTypeNames } from './json';
+
+/**
+ * Shape of the generated module
+ * - 'namespace': nested `export namespace` blocks of constants
+ * - 'object': a nested `as const` object literal
+ * - 'record': a flat `as const` object keyed by public path
+ * - 'union': a string-literal union type `AssetPath`
+ * - 'enum': a flat string enum
+ */
+export type OutputFormat = 'namespace' | 'object' | 'record' | 'union' | 'enum';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['namespace', 'object', 'record', 'union', 'enum'];
+
+/**
+ * Name of the object exported by the object and record formats
+ */
+export const ASSETS_OBJECT_NAME = 'assets';
+
+/**
+ * Name of the enum exported by the enum format
+ */
+export const ASSETS_ENUM_NAME = 'Asset';
+
+/**
+ * Name of the constant holding the prefix read at runtime
+ */
+export const ASSET_PREFIX_NAME = 'ASSET_PREFIX';
+
+/**
+ * Prefix that the generated file reads from an environment variable when it is imported
+ */
+export interface RuntimePrefix {
+  envVar: string;
+  /**
+   * Prefix used when the variable is not set
+   */
+  fallback: string;
+}
+
+/**
+ * Top-level names declared by the path helpers
+ */
+export const PATH_HELPER_NAMES = ['assetPaths', 'isAssetPath', 'asset'];
+
+/**
+ * Formats a value as a single-quoted string literal
+ */
+export function toStringLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Checks whether any entry of the tree carries image data
+ */
+function hasImageData(group: AssetGroup): boolean {
+  return Object.values(group).some(node => isAssetEntry(node) ? !!node.image : hasImageData(node));
+}
+
+/**
+ * Generates the expression of a URL, prefixed at runtime when the runtime prefix is enabled
+ */
+function generateUrlExpression(value: string, runtimePrefix: boolean): string {
+  return runtimePrefix && isRootRelativePath(value)
+    ? `${ASSET_PREFIX_NAME} + ${toStringLiteral(value)}`
+    : toStringLiteral(value);
+}
+
+/**
+ * Formats an object key, quoted when it is not a valid identifier
+ */
+function toPropertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : toStringLiteral(key);
+}
+
+/**
+ * Generates the expression of the srcset of responsive image variants
+ */
+function generateSrcSetExpression(variants: ResponsiveVariant[], runtimePrefix: boolean): string {
+  return runtimePrefix
+    ? variants.map(variant => generateUrlExpression(getSrcSet([variant]), true)).join(" + ', ' + ")
+    : toStringLiteral(getSrcSet(variants));
+}
+
+/**
+ * Generates the expression of an entry value: a string, an image object, a responsive image object,
+ * or a map of these keyed by locale or theme for localized or themed entries
+ */
+function generateValueExpression(entry: AssetEntry, runtimePrefix: boolean): string {
+  const keyedVariants = entry.locales ?? entry.themes;
+  if (keyedVariants) {
+    const variants = Object.keys(keyedVariants)
+      .map(key => `${toPropertyKey(key)}: ${generateValueExpression(keyedVariants[key], runtimePrefix)}`);
+    return `{ ${variants.join(', ')} }`;
+  }
+
+  const src = generateUrlExpression(getAssetUrl(entry), runtimePrefix);
+  if (!entry.image && !entry.variants) {
+    return src;
+  }
+
+  const fields = [`src: ${src}`];
+  if (entry.image) {
+    const { width, height, blurDataURL } = entry.image;
+    fields.push(`width: ${width}`, `height: ${height}`);
+    if (blurDataURL) {
+      fields.push(`blurDataURL: ${toStringLiteral(blurDataURL)}`);
+    }
+  }
+  if (entry.variants) {
+    const variants = entry.variants.map(variant =>
+      `{ src: ${generateUrlExpression(getAssetUrl(variant), runtimePrefix)}, descriptor: ${toStringLiteral(variant.descriptor)} }`);
+    fields.push(`srcSet: ${generateSrcSetExpression(entry.variants, runtimePrefix)}`, `variants: [${variants.join(', ')}]`);
+  }
+  return `{ ${fields.join(', ')} }`;
+}
+
+/**
+ * Names the imports of the SVG components of the tree after their component, e.g. LogoSvg,
+ * avoiding the top-level names of the generated module
+ */
+function getSvgComponentBindings(group: AssetGroup): Map<AssetSvg, string> {
+  const usedNames = new Set([...Object.keys(group), ASSET_PREFIX_NAME, ASSETS_OBJECT_NAME, 'Assets', 'StaticImageData']);
+  const bindings = new Map<AssetSvg, string>();
+  flattenAssetTree(group).forEach(({ entry }) => {
+    if (!entry.svg?.component) {
+      return;
+    }
+    const baseName = `${entry.svg.component.componentName}Svg`;
+    let binding = baseName;
+    for (let counter = 2; usedNames.has(binding); counter++) {
+      binding = `${baseName}${counter}`;
+    }
+    usedNames.add(binding);
+    bindings.set(entry.svg, binding);
+  });
+  return bindings;
+}
+
+/**
+ * Generates the expression of the markup string or of the imported component of an SVG file
+ */
+function generateSvgExpression(svg: AssetSvg, svgBindings: Map<AssetSvg, string>): string {
+  return svg.component ? svgBindings.get(svg)! : toStringLiteral(svg.markup ?? '');
+}
+
+/**
+ * Generates nested namespaces of constants
+ */
+function generateNamespaceCode(
+  group: AssetGroup,
+  runtimePrefix: boolean,
+  svgBindings: Map<AssetSvg, string>,
+  jsonTypeNames: Map<AssetEntry, string>,
+  indentation = 0
+): string {
+  const indent = ' '.repeat(indentation);
+  let code = '';
+
+  Object.entries(group).forEach(([key, value]) => {
+    if (isAssetEntry(value)) {
+      // It's a file path
+      const type = value.image && !value.locales && !value.themes && !value.variants ? ': StaticImageData' : '';
+      code += `${indent}export const ${key}${type} = ${generateValueExpression(value, runtimePrefix)};\n`;
+      if (value.svg) {
+        code += `${indent}export const ${value.svg.name} = ${generateSvgExpression(value.svg, svgBindings)};\n`;
+      }
+      const jsonTypeName = jsonTypeNames.get(value);
+      if (jsonTypeName !== undefined) {
+        code += `${indent}${generateJsonTypeDeclaration(value, jsonTypeName)}\n`;
+      }
+    } else {
+      // It's a group/directory
+      code += `${indent}export namespace ${key} {\n`;
+      code += generateNamespaceCode(value, runtimePrefix, svgBindings, jsonTypeNames, indentation + 2);
+      code += `${indent}}\n`;
+    }
+  });
+
+  return code;
+}
+
+/**
+ * Generates the properties of a nested object literal
+ */
+function generateObjectProperties(
+  group: AssetGroup,
+  runtimePrefix: boolean,
+  svgBindings: Map<AssetSvg, string>,
+  indentation: number
+): string {
+  const indent = ' '.repeat(indentation);
+  let code = '';
+
+  Object.entries(group).forEach(([key, value]) => {
+    if (isAssetEntry(value)) {
+      code += `${indent}${key}: ${generateValueExpression(value, runtimePrefix)},\n`;
+      if (value.svg) {
+        code += `${indent}${value.svg.name}: ${generateSvgExpression(value.svg, svgBindings)},\n`;
+      }
+    } else {
+      code += `${indent}${key}: {\n`;
+      code += generateObjectProperties(value, runtimePrefix, svgBindings, indentation + 2);
+      code += `${indent}},\n`;
+    }
+  });
+
+  return code;
+}
+
+/**
+ * Generates a nested `as const` object and its type
+ */
+function generateObjectCode(group: AssetGroup, runtimePrefix: boolean, svgBindings: Map<AssetSvg, string>): string {
+  return `export const ${ASSETS_OBJECT_NAME} = {\n`
+    + generateObjectProperties(group, runtimePrefix, svgBindings, 2)
+    + `} as const;\n\n`
+    + `export type Assets = typeof ${ASSETS_OBJECT_NAME};\n`;
+}
+
+/**
+ * Generates a flat `as const` object keyed by public path, with its key and value types
+ */
+function generateRecordCode(group: AssetGroup, runtimePrefix: boolean): string {
+  const properties = flattenAssetTree(group)
+    .map(({ entry }) => `  ${toStringLiteral('/' + entry.relativePath)}: ${generateValueExpression(entry, runtimePrefix)},\n`)
+    .join('');
+
+  return `export const ${ASSETS_OBJECT_NAME} = {\n${properties}} as const;\n\n`
+    + `export type AssetKey = keyof typeof ${ASSETS_OBJECT_NAME};\n\n`
+    + `export type AssetValue = (typeof ${ASSETS_OBJECT_NAME})[AssetKey];\n`;
+}
+
+/**
+ * Generates a string-literal union of every asset URL
+ */
+function generateUnionCode(group: AssetGroup): string {
+  const urls = flattenAssetValues(group).map(({ value }) => value);
+  if (urls.length === 0) {
+    return 'export type AssetPath = never;\n';
+  }
+
+  return `export type AssetPath =\n${urls.map(url => `  | ${toStringLiteral(url)}`).join('\n')};\n`;
+}
+
+/**
+ * Names the enum members by joining the nested names with underscores, numbering duplicates
+ * @param paths Nested names of each asset, in tree order
+ */
+export function getEnumMemberNames(paths: string[][]): string[] {
+  const usedNames = new Set<string>();
+  return paths.map(path => {
+    // Locales such as en-US and descriptors such as 1.5x are not identifiers
+    const baseName = path.join('_').replace(/[^\w$]/g, '_');
+    let name = baseName;
+    for (let counter = 2; usedNames.has(name); counter++) {
+      name = `${baseName}_${counter}`;
+    }
+    usedNames.add(name);
+    return name;
+  });
+}
+
+/**
+ * Generates a flat string enum whose members join the nested names with underscores
+ */
+function generateEnumCode(group: AssetGroup): string {
+  const values = flattenAssetValues(group);
+  const names = getEnumMemberNames(values.map(({ path }) => path));
+  const members = values.map(({ value }, index) => `  ${names[index]} = ${toStringLiteral(value)},\n`);
+
+  return `export enum ${ASSETS_ENUM_NAME} {\n${members.join('')}}\n`;
+}
+
+/**
+ * Generates the declaration of the prefix read from the environment
+ */
+function generateRuntimePrefixCode({ envVar, fallback }: RuntimePrefix): string {
+  return `/**
+ * Prefix of the asset URLs, read from process.env.${envVar} when this module is imported
+ */
+const ${ASSET_PREFIX_NAME} = (process.env.${envVar} ?? ${toStringLiteral(fallback)}).replace(/\\/+$/, '');
+
+`;
+}
+
+/**
+ * Generates the body of the output file in the requested format
+ * @param runtimePrefix Prefix read at runtime, only supported by the namespace, object and record formats
+ */
+export function generateOutputCode(group: AssetGroup, format: OutputFormat, runtimePrefix?: RuntimePrefix): string {
+  const svgBindings = getSvgComponentBindings(group);
+  let code = Array.from(svgBindings, ([svg, binding]) => `import ${binding} from ${toStringLiteral(svg.component!.importPath)};\n`)
+    .join('');
+  if (code) {
+    code += '\n';
+  }
+  code += runtimePrefix ? generateRuntimePrefixCode(runtimePrefix) : '';
+
+  // Image objects are only emitted by the formats that carry full values
+  if (hasImageData(group) && (format === 'namespace' || format === 'object' || format === 'record')) {
+    code += `/**
+ * Image data compatible with the next/image StaticImageData type
+ */
+export interface StaticImageData {
+  src: string;
+  width: number;
+  height: number;
+  blurDataURL?: string;
+}
+
+`;
+  }
+
+  switch (format) {
+    case 'object':
+      return code + generateObjectCode(group, !!runtimePrefix, svgBindings);
+    case 'record':
+      return code + generateRecordCode(group, !!runtimePrefix);
+    case 'union':
+      return code + generateUnionCode(group);
+    case 'enum':
+      return code + generateEnumCode(group);
+    case 'namespace':
+      return code + generateNamespaceCode(group, !!runtimePrefix, svgBindings, getJsonTypeNames(group));
+  }
+}
+
+/**
+ * Generates the AssetPath union, the list of every asset URL,
+ * the isAssetPath() type guard and the typed asset() helper
+ * @param runtimePrefix Prefix added by asset() at runtime; the listed paths stay unprefixed
+ */
+export function generatePathHelpersCode(group: AssetGroup, format: OutputFormat, runtimePrefix?: RuntimePrefix): string {
+  const urls = Array.from(new Set(flattenAssetValues(group).map(({ value }) => value)));
+  const items = urls.map(url => `  ${toStringLiteral(url)},\n`).join('');
+
+  let code = `/**
+ * Every asset URL
+ */
+export const assetPaths = [\n${items}] as const;
+
+`;
+
+  // The union format already declares the same AssetPath type
+  if (format !== 'union') {
+    code += `export type AssetPath = (typeof assetPaths)[number];
+
+`;
+  }
+
+  code += `/**
+ * Checks whether a string is the URL of a known asset
+ */
+export function isAssetPath(value: string): value is AssetPath {
+  return (assetPaths as readonly string[]).indexOf(value) !== -1;
+}
+
+`;
+
+  if (runtimePrefix) {
+    code += `/**
+ * Returns the URL of an asset with the runtime prefix, failing to compile if the asset does not exist
+ */
+export function asset(path: AssetPath): string {
+  return path.charAt(0) === '/' && path.charAt(1) !== '/' ? ${ASSET_PREFIX_NAME} + path : path;
+}
+`;
+    return code;
+  }
+
+  code += `/**
+ * Returns the URL of an asset, failing to compile if the asset does not exist
+ */
+export function asset<P extends AssetPath>(path: P): P {
+  return path;
+}
+`;
+
+  return code;
+}
@@ -1,10 +1,54 @@
 import path from 'path';
-import { Config, isTsConfig } from './types';
+import {
+  AssetEntry,
+  AssetGroup,
+  AssetImageData,
+  AssetTree,
+  Config,
+  ExclusionReason,
+  isTsConfig,
+  PathValueInfo
+} from './types';
 import fs from 'fs';
-
-interface AssetGroup {
-  [key: string]: string | AssetGroup;
-}
+import { isImageFile, readBlurDataURL, readImageSize } from './image';
+import { applyContentHash, computeContentHash, DEFAULT_CONTENT_HASH_LENGTH } from './hash';
+import {
+  ASSET_PREFIX_NAME,
+  generateOutputCode,
+  generatePathHelpersCode,
+  PATH_HELPER_NAMES,
+  RuntimePrefix
+} from './formats';
+import { NameCollisionError, NameIssue, resolveVariableName } from './naming';
+import { matchesExcludePatterns } from './patterns';
+import { applyPathPrefix, getPathPrefix } from './prefix';
+import {
+  detectLocale,
+  generateLocaleHelpersCode,
+  getDefaultLocale,
+  LOCALE_HELPER_NAMES,
+  mergeLocaleVariants
+} from './locales';
+import {
+  detectResponsiveVariant,
+  mergeResponsiveVariants,
+  ResponsiveDescriptorKind,
+  ResponsiveMatch
+} from './responsive';
+import { detectTheme, generateThemeHelpersCode, getDefaultTheme, mergeThemeVariants, THEME_HELPER_NAMES } from './themes';
+import {
+  AssetSvg,
+  generateSvgComponentCode,
+  getComponentImportPath,
+  getSvgComponentName,
+  isSvgTarget,
+  optimizeSvg
+} from './svg';
+import { createDataUri, listInlinedAssets, shouldInlineFile } from './inline';
+import { generateJsonHelpersCode, isJsonFile, JSON_HELPER_NAMES, readJsonType } from './json';
+import { generateKindTypesCode, getAssetKind, getGrouping } from './kinds';
+import { generateFontFaceCss, generateNextFontCode, getFontFiles, listFontFiles } from './fonts';
+import { createPluginContext, PluginContext, runTransformEntryHooks, runTransformTreeHooks } from './plugins';
 
 /**
  * Gets the relative path from a file path
@@ -18,7 +62,6 @@ function getRelativePath(filePath: string, config: Config): string {
   const relativePath = path.relative(absolutePublicDir, absoluteFilePath)
     .replace(/\\/g, '/'); // Normalize path separators
     
-  console.log(`getRelativePath: ${filePath} -> ${relativePath}`);
   return relativePath;
 }
 
@@ -82,92 +125,588 @@ function pathToVariableName(filePath: string, config: Config): string {
  */
 function transformPathValue(filePath: string, config: Config): string {
   const relativePath = getRelativePath(filePath, config);
+  const info: PathValueInfo = {};
+  
+  if (config.contentHash) {
+    info.hash = computeContentHash(filePath, config.contentHashLength ?? DEFAULT_CONTENT_HASH_LENGTH);
+  }
+  
+  // Default behavior - prepend with /
+  let value = '/' + relativePath;
   
   if (isTsConfig(config) && config.transformPathValue) {
     // Use custom transform function if provided
-    return config.transformPathValue(filePath, relativePath);
+    value = config.transformPathValue(filePath, relativePath, info);
   }
   
-  // Default behavior - prepend with /
-  return '/' + relativePath;
+  if (info.hash) {
+    value = applyContentHash(value, info.hash, config.contentHashStrategy ?? 'query');
+  }
+  
+  // In runtime mode, the generated file adds the prefix when it is imported
+  if (!config.runtimePrefixEnv) {
+    value = applyPathPrefix(value, getPathPrefix(config));
+  }
+  
+  return value;
+}
+
+/**
+ * Reads the image data of a file when image objects are enabled
+ */
+function readImageData(filePath: string, config: Config, warnings: string[]): AssetImageData | undefined {
+  if (!config.emitImageData || !isImageFile(filePath)) {
+    return undefined;
+  }
+
+  const size = readImageSize(filePath);
+  if (!size) {
+    warnings.push(`Could not read image dimensions of ${filePath}, emitting a plain path instead`);
+    return undefined;
+  }
+
+  const image: AssetImageData = { ...size };
+  if (config.blurPlaceholder) {
+    const blurDataURL = isTsConfig(config) && config.getBlurDataURL
+      ? config.getBlurDataURL(filePath, getRelativePath(filePath, config), size)
+      : readBlurDataURL(filePath);
+    if (blurDataURL) {
+      image.blurDataURL = blurDataURL;
+    }
+  }
+
+  return image;
 }
 
 /**
- * Determines if a file should be included based on configuration
+ * Creates the tree entry for an asset file
  */
-function shouldIncludeFile(filePath: string, config: Config): boolean {
+function createAssetEntry(filePath: string, config: Config, warnings: string[]): AssetEntry {
+  const relativePath = getRelativePath(filePath, config);
+  const entry: AssetEntry = {
+    filePath,
+    relativePath,
+    value: transformPathValue(filePath, config),
+    image: readImageData(filePath, config, warnings)
+  };
+
+  // Small files are exported as data URIs instead of paths
+  if (config.inlineThreshold !== undefined && shouldInlineFile(relativePath, fs.statSync(filePath).size, config)) {
+    entry.dataUri = createDataUri(filePath);
+  }
+
+  if (config.emitJsonTypes && isJsonFile(filePath)) {
+    entry.jsonType = readJsonType(filePath);
+    if (entry.jsonType === undefined) {
+      warnings.push(`Could not parse JSON file ${filePath}, emitting no type for it`);
+    }
+  }
+  return entry;
+}
+
+/**
+ * Entries computed for a configuration, keyed by file path, with the warnings raised while computing them
+ */
+export type AssetEntryCache = Map<string, { entry: AssetEntry; warnings: string[] }>;
+
+/**
+ * Creates the entry of a file, reusing the cached one when the file did not change
+ */
+function getAssetEntry(filePath: string, config: Config, warnings: string[], cache?: AssetEntryCache): AssetEntry {
+  let cached = cache?.get(filePath);
+  if (!cached) {
+    const entryWarnings: string[] = [];
+    cached = { entry: createAssetEntry(filePath, config, entryWarnings), warnings: entryWarnings };
+    cache?.set(filePath, cached);
+  }
+
+  warnings.push(...cached.warnings);
+  // Plugins may mutate the entry, keep the cached one intact
+  return { ...cached.entry };
+}
+
+/**
+ * A file of the tree, or the variants of a localized or themed asset or of a responsive image merged into one
+ */
+interface AssetUnit {
+  /**
+   * Path the name and the directory groups are derived from, without the locale, the theme or the size
+   * suffix of grouped assets
+   */
+  filePath: string;
+  relativePath: string;
+  /**
+   * Files of the locale variants, keyed by locale
+   */
+  locales?: Map<string, string>;
+  /**
+   * Files of the theme variants, keyed by theme
+   */
+  themes?: Map<string, string>;
+  /**
+   * File without suffix and files of the density or width variants of a responsive image
+   */
+  responsive?: { base?: string; variants: Array<{ match: ResponsiveMatch; file: string }> };
+}
+
+/**
+ * Checks whether a unit is a single file, not merged yet
+ */
+function isSingleFileUnit(unit: AssetUnit): boolean {
+  return !unit.locales && !unit.themes && !unit.responsive;
+}
+
+/**
+ * Merges the single files detected as variants of the same asset into units keyed by locale or theme
+ *
+ * A file without key at the path shared by variants (images/hero.svg next to images/fr/hero.svg)
+ * is the variant of the default key, unless that one exists too.
+ */
+function groupKeyedVariants(
+  units: AssetUnit[],
+  config: Config,
+  field: 'locales' | 'themes',
+  detect: (relativePath: string) => { key: string; path: string } | undefined,
+  defaultKey: string
+): AssetUnit[] {
+  const grouped: AssetUnit[] = [];
+  const keyedUnits = new Map<string, AssetUnit>();
+
+  const detected = units.map(unit => ({ unit, match: isSingleFileUnit(unit) ? detect(unit.relativePath) : undefined }));
+  const defaultVariants = new Set(detected
+    .filter(({ match }) => match && match.key === defaultKey)
+    .map(({ match }) => match!.path));
+  const keyedPaths = new Set(detected.map(({ match }) => match?.path));
+
+  detected.forEach(({ unit, match: detectedMatch }) => {
+    const isDefaultVariant = !detectedMatch && isSingleFileUnit(unit)
+      && keyedPaths.has(unit.relativePath) && !defaultVariants.has(unit.relativePath);
+    const match = isDefaultVariant ? { key: defaultKey, path: unit.relativePath } : detectedMatch;
+    if (!match) {
+      grouped.push(unit);
+      return;
+    }
+
+    let keyedUnit = keyedUnits.get(match.path);
+    if (!keyedUnit) {
+      keyedUnit = {
+        filePath: path.join(path.resolve(process.cwd(), config.publicDir), match.path),
+        relativePath: match.path,
+        [field]: new Map()
+      };
+      keyedUnits.set(match.path, keyedUnit);
+      grouped.push(keyedUnit);
+    }
+    keyedUnit[field]!.set(match.key, unit.filePath);
+  });
+
+  return grouped;
+}
+
+/**
+ * Merges the locale variants of the included files when locales are configured
+ */
+function groupLocaleVariants(units: AssetUnit[], config: Config): AssetUnit[] {
+  const options = config.locales;
+  if (!options) {
+    return units;
+  }
+  return groupKeyedVariants(units, config, 'locales', relativePath => {
+    const match = detectLocale(relativePath, options);
+    return match && { key: match.locale, path: match.localizedPath };
+  }, getDefaultLocale(options));
+}
+
+/**
+ * Merges the theme variants of the files left as single files when themes are configured
+ */
+function groupThemeVariants(units: AssetUnit[], config: Config): AssetUnit[] {
+  const options = config.themes;
+  if (!options) {
+    return units;
+  }
+  return groupKeyedVariants(units, config, 'themes', relativePath => {
+    const match = detectTheme(relativePath, options);
+    return match && { key: match.theme, path: match.themedPath };
+  }, getDefaultTheme(options));
+}
+
+/**
+ * Merges the density and width variants of the images left as single files when responsive images are enabled
+ *
+ * The variants of an image share the kind of the first one found; a file without suffix at their
+ * path (images/hero.png next to images/hero@2x.png) is the default one.
+ */
+function groupResponsiveVariants(units: AssetUnit[], config: Config): AssetUnit[] {
+  if (!config.responsiveImages) {
+    return units;
+  }
+
+  const options = config.responsiveImages;
+  const detected = units.map(unit => ({
+    unit,
+    match: isSingleFileUnit(unit) && isImageFile(unit.relativePath)
+      ? detectResponsiveVariant(unit.relativePath, options)
+      : undefined
+  }));
+  const kinds = new Map<string, ResponsiveDescriptorKind>();
+  detected.forEach(({ match }) => {
+    if (match && !kinds.has(match.basePath)) {
+      kinds.set(match.basePath, match.kind);
+    }
+  });
+
+  const grouped: AssetUnit[] = [];
+  const responsiveUnits = new Map<string, AssetUnit>();
+  const getResponsiveUnit = (basePath: string) => {
+    let unit = responsiveUnits.get(basePath);
+    if (!unit) {
+      unit = {
+        filePath: path.join(path.resolve(process.cwd(), config.publicDir), basePath),
+        relativePath: basePath,
+        responsive: { variants: [] }
+      };
+      responsiveUnits.set(basePath, unit);
+      grouped.push(unit);
+    }
+    return unit;
+  };
+
+  detected.forEach(({ unit, match }) => {
+    if (match && kinds.get(match.basePath) === match.kind) {
+      getResponsiveUnit(match.basePath).responsive!.variants.push({ match, file: unit.filePath });
+    } else if (!match && isSingleFileUnit(unit) && kinds.has(unit.relativePath)) {
+      getResponsiveUnit(unit.relativePath).responsive!.base = unit.filePath;
+    } else {
+      grouped.push(unit);
+    }
+  });
+
+  return grouped;
+}
+
+/**
+ * Lists the files merged into a unit
+ */
+function getUnitFiles(unit: AssetUnit): string[] {
+  const keyedFiles = unit.locales ?? unit.themes;
+  if (keyedFiles) {
+    return Array.from(keyedFiles.values());
+  }
+  if (unit.responsive) {
+    const files = unit.responsive.variants.map(({ file }) => file);
+    return unit.responsive.base ? [unit.responsive.base, ...files] : files;
+  }
+  return [unit.filePath];
+}
+
+/**
+ * Creates the entry of a unit, merging the entries of its locale, theme or responsive variants
+ */
+function getUnitEntry(unit: AssetUnit, config: Config, warnings: string[], cache?: AssetEntryCache): AssetEntry {
+  if (unit.responsive) {
+    const { base, variants } = unit.responsive;
+    return mergeResponsiveVariants(
+      unit.relativePath,
+      base !== undefined ? getAssetEntry(base, config, warnings, cache) : undefined,
+      variants.map(({ match, file }) => ({ match, entry: getAssetEntry(file, config, warnings, cache) }))
+    );
+  }
+
+  const getVariantEntries = (files: Map<string, string>) => {
+    const variants = new Map<string, AssetEntry>();
+    files.forEach((file, key) => variants.set(key, getAssetEntry(file, config, warnings, cache)));
+    return variants;
+  };
+
+  if (unit.themes && config.themes) {
+    const { entry, missing } = mergeThemeVariants(unit.relativePath, getVariantEntries(unit.themes), config.themes);
+    if (missing.length > 0) {
+      warnings.push(`Missing themes for ${unit.relativePath}: ${missing.join(', ')}`);
+    }
+    return entry;
+  }
+
+  if (unit.locales && config.locales) {
+    const { entry, missing } = mergeLocaleVariants(unit.relativePath, getVariantEntries(unit.locales), config.locales);
+    if (missing.length > 0) {
+      warnings.push(`Missing locales for ${unit.relativePath}: ${missing.join(', ')}`);
+    }
+    return entry;
+  }
+
+  return getAssetEntry(unit.filePath, config, warnings, cache);
+}
+
+/**
+ * Determines why a file should be left out, based on configuration
+ * @returns The exclusion reason, or undefined if the file should be included
+ */
+function getExclusionReason(filePath: string, config: Config): ExclusionReason | undefined {
   const relativePath = getRelativePath(filePath, config);
   
   // Check exclude patterns first (for both config types)
-  console.log('excludePatterns: ', config.excludePatterns);
-  if (config.excludePatterns.some(pattern => 
-    new RegExp(pattern.replace(/\*/g, '.*')).test(relativePath))) {
-    return false;
+  if (matchesExcludePatterns(relativePath, config.excludePatterns)) {
+    return 'exclude-pattern';
   }
-
-  console.log('Config: ', isTsConfig(config) && config.shouldIncludeFile ? "has shouldIncludeFile" : "does not have shouldIncludeFile");
   
   // If using TS config with custom inclusion function, use it
-  if (isTsConfig(config) && config.shouldIncludeFile) {
-    return config.shouldIncludeFile(filePath, relativePath);
+  if (isTsConfig(config) && config.shouldIncludeFile && !config.shouldIncludeFile(filePath, relativePath)) {
+    return 'filtered';
   }
   
   // Otherwise include the file
-  return true;
+  return undefined;
+}
+
+/**
+ * Joins a variable name with a suffix following the configured naming convention
+ */
+function joinNameParts(base: string, suffix: string, config: Config): string {
+  if (!isTsConfig(config) && config.namingStrategy === 'snake_case') {
+    return `${base}_${suffix.toLowerCase()}`;
+  }
+
+  // Avoid repeating the variable prefix when qualifying a name with another one
+  const prefix = !isTsConfig(config) ? config.variablePrefix : '';
+  const unprefixed = prefix && suffix.startsWith(prefix) ? suffix.slice(prefix.length) : suffix;
+  return base + unprefixed.charAt(0).toUpperCase() + unprefixed.slice(1);
+}
+
+/**
+ * Reads the markup of an SVG file, and emits its component in component mode
+ * @returns undefined when the component cannot be generated
+ */
+function createAssetSvg(
+  filePath: string,
+  relativePath: string,
+  name: string,
+  config: Config,
+  context: PluginContext,
+  warnings: string[]
+): AssetSvg | undefined {
+  const options = config.svg!;
+  const markup = optimizeSvg(fs.readFileSync(filePath, 'utf8'), options);
+  if (options.mode === 'raw') {
+    return { name, markup };
+  }
+
+  const componentName = getSvgComponentName(relativePath);
+  const code = generateSvgComponentCode(markup, componentName, relativePath);
+  if (code === undefined) {
+    warnings.push(`No svg root element in ${relativePath}, its component is not generated`);
+    return undefined;
+  }
+
+  const componentsDir = options.componentsDir ?? path.join(path.dirname(config.outputFile), 'svg');
+  const componentFile = path.resolve(process.cwd(), componentsDir, relativePath.replace(/\.svg$/i, '.ts'));
+  context.emitFile(componentFile, code);
+  return {
+    name,
+    component: {
+      importPath: getComponentImportPath(path.resolve(process.cwd(), config.outputFile), componentFile),
+      componentName
+    }
+  };
+}
+
+/**
+ * Emits the @font-face stylesheet and/or the next/font/local module of the font files of the tree
+ */
+function emitFontFiles(tree: AssetGroup, config: Config, context: PluginContext): void {
+  const options = config.fonts!;
+  const fonts = listFontFiles(tree, options);
+  if (fonts.length === 0) {
+    context.warnings.push('No font files found, the font stylesheet and module are not generated');
+    return;
+  }
+
+  const { cssFile, moduleFile } = getFontFiles(config.outputFile, options);
+  if (options.output !== 'next-font') {
+    context.emitFile(cssFile, generateFontFaceCss(fonts, options));
+  }
+  if (options.output !== 'css') {
+    context.emitFile(moduleFile, generateNextFontCode(fonts, moduleFile, options));
+  }
+}
+
+/**
+ * Resolves a name in a group, recording renamed or rejected entries
+ */
+function resolveNameInGroup(
+  name: string,
+  relativePath: string,
+  group: AssetGroup,
+  config: Config,
+  issues: NameIssue[],
+  context: { extension?: string; parentName?: string; reservedNames?: string[] }
+): string | undefined {
+  const { reservedNames = [], ...nameContext } = context;
+  const resolution = resolveVariableName(name, relativePath, {
+    strategy: config.collisionStrategy ?? 'suffix-extension',
+    isTaken: candidate => Object.prototype.hasOwnProperty.call(group, candidate) || reservedNames.includes(candidate),
+    join: (base, suffix) => joinNameParts(base, suffix, config),
+    ...nameContext
+  });
+
+  if (resolution.issue) {
+    issues.push(resolution.issue);
+  }
+  return resolution.name;
 }
 
 /**
  * Groups assets by directory structure
  */
-function groupAssetsByDirectory(files: string[], config: Config): AssetGroup {
+function groupAssetsByDirectory(
+  files: string[],
+  config: Config,
+  report: AssetTree,
+  context: PluginContext,
+  cache?: AssetEntryCache
+): AssetGroup {
   const result: AssetGroup = {};
-  console.log(`groupAssetsByDirectory: Processing ${files.length} files`);
+  const issues = report.renamed;
   
-  files.forEach(file => {
-    console.log(`\nProcessing file: ${file}`);
+  // Sort files so names are resolved in the same order on every run
+  const includedFiles = [...files].sort().filter(file => {
     // Check if file should be included
-    if (!shouldIncludeFile(file, config)) {
-      console.log(`Skipping file: ${file} - excluded by shouldIncludeFile`);
-      return;
+    const reason = getExclusionReason(file, config);
+    if (reason) {
+      report.excluded.push({ filePath: file, relativePath: getRelativePath(file, config), reason });
+      return false;
     }
+    return true;
+  });
+  
+  // Top-level names already declared by the generated helpers
+  const isNamespaceFormat = (config.outputFormat ?? 'namespace') === 'namespace';
+  const rootReservedNames = isNamespaceFormat
+    ? (config.emitPathHelpers ? PATH_HELPER_NAMES : [])
+      .concat(config.locales ? LOCALE_HELPER_NAMES : [], config.themes ? THEME_HELPER_NAMES : [])
+      .concat(config.emitJsonTypes ? JSON_HELPER_NAMES : [])
+    : [];
+  // The runtime prefix constant must not be shadowed in any namespace
+  const prefixReservedNames = config.runtimePrefixEnv && isNamespaceFormat ? [ASSET_PREFIX_NAME] : [];
+  // Names of the SVG markup and components declared next to the entries of each group
+  const svgNames = new Map<AssetGroup, string[]>();
+  const reservedNamesIn = (group: AssetGroup) =>
+    (group === result ? rootReservedNames : []).concat(prefixReservedNames, svgNames.get(group) ?? []);
+  
+  // Directory names resolved per group, so every file of a directory lands in the same group
+  const directoryKeys = new Map<AssetGroup, Map<string, string | undefined>>();
+  // Kind names resolved at the top level, so every file of a kind lands in the same group
+  const kindKeys = new Map<string, string | undefined>();
+  const { byKind, byDirectory } = getGrouping(config.groupBy, config.groupByDirectory);
+  
+  // Create the kind and directory groups first, so they take precedence over files with the same name
+  const singleFiles = includedFiles.map(filePath => ({ filePath, relativePath: getRelativePath(filePath, config) }));
+  const units = groupResponsiveVariants(groupThemeVariants(groupLocaleVariants(singleFiles, config), config), config);
+  const targets = units.map(unit => {
+    const relativePath = unit.relativePath;
+    
+    let current: AssetGroup | undefined = result;
+    let parentName: string | undefined;
     
-    // Get relative path
-    const relativePath = getRelativePath(file, config);
-    console.log(`File relative path: ${relativePath}`);
+    if (byKind) {
+      const kind = getAssetKind(relativePath, config.assetKinds);
+      if (!kindKeys.has(kind)) {
+        const resolvedName = resolveNameInGroup(pathToVariableName(kind, config), `${kind} assets`, result, config, issues, {
+          reservedNames: reservedNamesIn(result)
+        });
+        if (resolvedName !== undefined) {
+          result[resolvedName] = {};
+        }
+        kindKeys.set(kind, resolvedName);
+      }
+      const kindName = kindKeys.get(kind);
+      current = kindName !== undefined ? result[kindName] as AssetGroup : undefined;
+      parentName = kindName;
+    }
     
-    if (config.groupByDirectory) {
+    if (byDirectory) {
       // Handle directory structure
       const parts = relativePath.split('/');
-      const fileName = parts.pop() || '';
-      console.log(`File name: ${fileName}, Path parts: ${JSON.stringify(parts)}`);
+      parts.pop();
       
       // Build the nested structure
-      let current = result;
+      let dirPath = '';
       for (const part of parts) {
-        if (!part) {
-          console.log(`Skipping empty part`);
+        if (!part || !current) {
           continue;
         }
+        dirPath = dirPath ? `${dirPath}/${part}` : part;
         
-        // Convert directory name to proper case
-        const dirVarName = pathToVariableName(part, config);
-        console.log(`Directory variable name: ${dirVarName}`);
+        if (!directoryKeys.has(current)) {
+          directoryKeys.set(current, new Map());
+        }
+        const keys: Map<string, string | undefined> = directoryKeys.get(current)!;
         
-        if (!current[dirVarName]) {
-          current[dirVarName] = {};
+        if (!keys.has(part)) {
+          // Convert directory name to proper case
+          const dirVarName = pathToVariableName(part, config);
+          const resolvedName = resolveNameInGroup(dirVarName, `${dirPath}/`, current, config, issues, {
+            parentName,
+            reservedNames: reservedNamesIn(current)
+          });
+          if (resolvedName !== undefined) {
+            current[resolvedName] = {};
+          }
+          keys.set(part, resolvedName);
         }
-        current = current[dirVarName] as AssetGroup;
+        
+        const groupName: string | undefined = keys.get(part);
+        current = groupName !== undefined ? current[groupName] as AssetGroup : undefined;
+        parentName = groupName;
       }
-      
-      // Add the file at the appropriate level
-      const varName = pathToVariableName(file, config);
-      console.log(`Adding variable ${varName} = ${transformPathValue(file, config)}`);
-      current[varName] = transformPathValue(file, config);
     } else {
-      // Flat structure - just use the file name with transformed path value
-      const varName = pathToVariableName(file, config);
-      console.log(`Adding variable ${varName} = ${transformPathValue(file, config)} (flat structure)`);
-      result[varName] = transformPathValue(file, config);
+      // Flat structure - qualify collisions with the name of the containing directory
+      const parentDir = path.dirname(relativePath);
+      parentName = parentDir !== '.' ? pathToVariableName(path.basename(parentDir), config) : undefined;
+    }
+    
+    return { unit, relativePath, group: current, parentName };
+  });
+  
+  // Add the files at the appropriate level
+  targets.forEach(({ unit, relativePath, group, parentName }) => {
+    if (!group) {
+      // The containing directory was rejected
+      return;
+    }
+    
+    // Let plugins adjust the proposed name, the value and the metadata of the entry
+    const { name, ...entry } = runTransformEntryHooks(
+      { name: pathToVariableName(unit.filePath, config), ...getUnitEntry(unit, config, report.warnings, cache) },
+      context
+    );
+    
+    const extension = path.extname(relativePath).slice(1);
+    const varName = resolveNameInGroup(name, relativePath, group, config, issues, {
+      extension,
+      parentName,
+      reservedNames: reservedNamesIn(group)
+    });
+    if (varName === undefined) {
+      return;
+    }
+    
+    group[varName] = entry;
+    report.included.push(...getUnitFiles(unit));
+
+    // The markup or the component of SVG files is declared next to their path constant
+    if (config.svg && isSingleFileUnit(unit) && isSvgTarget(relativePath, config.svg)) {
+      const suffix = config.svg.mode === 'component' ? 'component' : 'svg';
+      const svgName = resolveNameInGroup(joinNameParts(varName, suffix, config), relativePath, group, config, issues, {
+        parentName,
+        reservedNames: reservedNamesIn(group)
+      });
+      entry.svg = svgName !== undefined
+        ? createAssetSvg(unit.filePath, relativePath, svgName, config, context, report.warnings)
+        : undefined;
+      if (entry.svg) {
+        svgNames.set(group, (svgNames.get(group) ?? []).concat(entry.svg.name));
+      }
     }
   });
   
@@ -175,43 +714,77 @@ function groupAssetsByDirectory(files: string[], config: Config): AssetGroup {
 }
 
 /**
- * Generates TypeScript code from the asset group
+ * Builds the asset tree from the scanned files, recording every inclusion and naming decision
+ * @param cache Entries computed by a previous build, updated with the new ones
+ * @throws NameCollisionError if the 'error' collision strategy rejects any name
+ * @throws PluginError if a transformEntry or transformTree hook fails
  */
-function generateCode(group: AssetGroup, indentation = 0): string {
-  const indent = ' '.repeat(indentation);
-  let code = '';
+export function buildAssetTree(
+  files: string[],
+  config: Config,
+  context: PluginContext = createPluginContext(config),
+  cache?: AssetEntryCache
+): AssetTree {
+  const report: AssetTree = { tree: {}, included: [], excluded: [], renamed: [], inlined: [], warnings: context.warnings };
+  report.tree = runTransformTreeHooks(groupAssetsByDirectory(files, config, report, context, cache), context);
+  report.inlined = listInlinedAssets(report.tree);
+  if (config.fonts) {
+    emitFontFiles(report.tree, config, context);
+  }
   
-  Object.entries(group).forEach(([key, value]) => {
-    if (typeof value === 'string') {
-      // It's a file path
-      code += `${indent}export const ${key} = '${value}';\n`;
-    } else {
-      // It's a group/directory
-      code += `${indent}export namespace ${key} {\n`;
-      code += generateCode(value, indentation + 2);
-      code += `${indent}}\n`;
-    }
-  });
+  const rejected = report.renamed.filter(issue => issue.resolvedName === undefined);
+  if (rejected.length > 0) {
+    throw new NameCollisionError(rejected);
+  }
   
-  return code;
+  return report;
 }
 
 /**
- * Main function to generate asset variables code
+ * Generates the code of the output file from an asset tree
  */
-export function generateAssetVariables(files: string[], config: Config): string {
-  // Group the assets
-  const assetGroups = groupAssetsByDirectory(files, config);
-  
-  // Generate the code
+export function generateTreeCode(tree: AssetGroup, config: Config): string {
   let generatedCode = `/**
  * This file is auto-generated by public-asset-link.
  * Do not edit this file directly.
  */
 
 `;
+
+  const format = config.outputFormat ?? 'namespace';
+  const runtimePrefix: RuntimePrefix | undefined = config.runtimePrefixEnv
+    ? { envVar: config.runtimePrefixEnv, fallback: getPathPrefix(config) }
+    : undefined;
+  generatedCode += generateOutputCode(tree, format, runtimePrefix);
+  
+  if (config.emitPathHelpers) {
+    generatedCode += '\n' + generatePathHelpersCode(tree, format, runtimePrefix);
+  }
   
-  generatedCode += generateCode(assetGroups);
+  if (config.emitJsonTypes) {
+    generatedCode += '\n' + generateJsonHelpersCode(tree, format, runtimePrefix);
+  }
+  
+  const kindTypesCode = getGrouping(config.groupBy, config.groupByDirectory).byKind
+    ? generateKindTypesCode(tree, config.assetKinds)
+    : '';
+  if (kindTypesCode) {
+    generatedCode += '\n' + kindTypesCode;
+  }
+  
+  if (config.locales) {
+    generatedCode += '\n' + generateLocaleHelpersCode(config.locales);
+  }
+  if (config.themes) {
+    generatedCode += '\n' + generateThemeHelpersCode(config.themes);
+  }
   
   return generatedCode;
-}
\ No newline at end of file
+}
+
+/**
+ * Main function to generate asset variables code
+ */
+export function generateAssetVariables(files: string[], config: Config): string {
+  return generateTreeCode(buildAssetTree(files, config).tree, config);
+}
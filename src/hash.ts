@@ -0,0 +1,70 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * How a content hash is added to a path value
+ */
+export type ContentHashStrategy = 'query' | 'path' | 'none';
+
+export const CONTENT_HASH_STRATEGIES: ContentHashStrategy[] = ['query', 'path', 'none'];
+
+/**
+ * Default number of hex characters kept from the content hash
+ */
+export const DEFAULT_CONTENT_HASH_LENGTH = 8;
+
+/**
+ * Text files whose line endings are normalized before hashing,
+ * so checkouts with CRLF line endings produce the same hash
+ */
+const TEXT_EXTENSIONS = [
+  '.svg', '.json', '.txt', '.xml', '.css', '.js', '.mjs', '.html', '.md', '.csv', '.webmanifest'
+];
+
+/**
+ * Computes a stable hash from the content of a file
+ */
+export function computeContentHash(filePath: string, length = DEFAULT_CONTENT_HASH_LENGTH): string {
+  const content = fs.readFileSync(path.resolve(process.cwd(), filePath));
+  return hashContent(content, path.extname(filePath).toLowerCase(), length);
+}
+
+/**
+ * Hashes file content (SHA-256, truncated to the given number of hex characters)
+ * @param content Content of the file
+ * @param extension Lowercase file extension, used to detect text files
+ * @param length Number of hex characters to keep
+ */
+export function hashContent(content: Buffer, extension: string, length = DEFAULT_CONTENT_HASH_LENGTH): string {
+  const normalized = TEXT_EXTENSIONS.includes(extension)
+    ? Buffer.from(content.toString('utf8').replace(/\r\n/g, '\n'), 'utf8')
+    : content;
+
+  return crypto.createHash('sha256').update(normalized).digest('hex').slice(0, length);
+}
+
+/**
+ * Adds a content hash to a path value according to the strategy
+ */
+export function applyContentHash(value: string, hash: string, strategy: ContentHashStrategy): string {
+  switch (strategy) {
+    case 'query':
+      return `${value}${value.includes('?') ? '&' : '?'}v=${hash}`;
+    case 'path': {
+      // Insert the hash before the extension of the path part, keeping any query string
+      const queryIndex = value.indexOf('?');
+      const pathPart = queryIndex === -1 ? value : value.slice(0, queryIndex);
+      const query = queryIndex === -1 ? '' : value.slice(queryIndex);
+      const fileStart = pathPart.lastIndexOf('/') + 1;
+      const extIndex = pathPart.lastIndexOf('.');
+
+      if (extIndex <= fileStart) {
+        return `${pathPart}.${hash}${query}`;
+      }
+      return `${pathPart.slice(0, extIndex)}.${hash}${pathPart.slice(extIndex)}${query}`;
+    }
+    case 'none':
+      return value;
+  }
+}
@@ -0,0 +1,211 @@
+import fs from 'fs';
+import path from 'path';
+import { getMimeType } from './mime';
+
+/**
+ * Intrinsic dimensions of an image asset
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * File extensions treated as images (raster and SVG)
+ */
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp', '.avif', '.bmp', '.svg'];
+
+/**
+ * Images up to this size (in bytes) are inlined as their own blurDataURL
+ */
+export const BLUR_PLACEHOLDER_MAX_BYTES = 4096;
+
+/**
+ * Checks whether a file is an image based on its extension
+ */
+export function isImageFile(filePath: string): boolean {
+  return IMAGE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Reads the dimensions of an image file from its header
+ */
+export function readImageSize(filePath: string): ImageSize | undefined {
+  if (!isImageFile(filePath)) {
+    return undefined;
+  }
+
+  try {
+    return getImageSize(fs.readFileSync(filePath), path.extname(filePath).toLowerCase());
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Builds a blurDataURL by inlining small images, or returns undefined if the image is too large
+ */
+export function readBlurDataURL(filePath: string): string | undefined {
+  if (!isImageFile(filePath)) {
+    return undefined;
+  }
+
+  try {
+    if (fs.statSync(filePath).size > BLUR_PLACEHOLDER_MAX_BYTES) {
+      return undefined;
+    }
+    return `data:${getMimeType(filePath)};base64,${fs.readFileSync(filePath).toString('base64')}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extracts image dimensions from the file content
+ * @param buffer Content of the image file
+ * @param extension Lowercase file extension, used to detect SVG files
+ */
+export function getImageSize(buffer: Buffer, extension: string): ImageSize | undefined {
+  if (extension === '.svg') {
+    return getSvgSize(buffer.toString('utf8'));
+  }
+
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    // PNG: dimensions are stored in the IHDR chunk
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  if (buffer.length >= 10 && buffer.toString('ascii', 0, 4) === 'GIF8') {
+    return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+  }
+
+  if (buffer.length >= 26 && buffer.toString('ascii', 0, 2) === 'BM') {
+    return { width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) };
+  }
+
+  if (buffer.length >= 30 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return getWebpSize(buffer);
+  }
+
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return getJpegSize(buffer);
+  }
+
+  if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp') {
+    return getAvifSize(buffer);
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads dimensions from the VP8, VP8L or VP8X chunk of a WebP file
+ */
+function getWebpSize(buffer: Buffer): ImageSize | undefined {
+  const chunk = buffer.toString('ascii', 12, 16);
+
+  switch (chunk) {
+    case 'VP8 ':
+      return {
+        width: buffer.readUInt16LE(26) & 0x3fff,
+        height: buffer.readUInt16LE(28) & 0x3fff
+      };
+    case 'VP8L':
+      return {
+        width: 1 + (((buffer[22] & 0x3f) << 8) | buffer[21]),
+        height: 1 + (((buffer[24] & 0x0f) << 10) | (buffer[23] << 2) | ((buffer[22] & 0xc0) >> 6))
+      };
+    case 'VP8X':
+      return {
+        width: 1 + buffer.readUIntLE(24, 3),
+        height: 1 + buffer.readUIntLE(27, 3)
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Walks the JPEG segments until a start-of-frame marker is found
+ */
+function getJpegSize(buffer: Buffer): ImageSize | undefined {
+  let offset = 2;
+
+  while (offset + 9 < buffer.length) {
+    if (buffer[offset] !== 0xff) {
+      return undefined;
+    }
+
+    const marker = buffer[offset + 1];
+
+    // Padding bytes between segments
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+
+    // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: buffer.readUInt16BE(offset + 5),
+        width: buffer.readUInt16BE(offset + 7)
+      };
+    }
+
+    offset += 2 + buffer.readUInt16BE(offset + 2);
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads dimensions from the image spatial extents ("ispe") property of an AVIF file
+ */
+function getAvifSize(buffer: Buffer): ImageSize | undefined {
+  const index = buffer.indexOf('ispe', 0, 'ascii');
+  if (index === -1 || index + 16 > buffer.length) {
+    return undefined;
+  }
+
+  return { width: buffer.readUInt32BE(index + 8), height: buffer.readUInt32BE(index + 12) };
+}
+
+/**
+ * Reads dimensions from the width/height attributes or the viewBox of the root svg element
+ */
+function getSvgSize(content: string): ImageSize | undefined {
+  const svgTag = content.match(/<svg\b[^>]*>/i)?.[0];
+  if (!svgTag) {
+    return undefined;
+  }
+
+  const readAttribute = (name: string) => svgTag.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+  const parseLength = (value: string | undefined) => {
+    const match = value?.trim().match(/^([\d.]+)(px)?$/);
+    return match ? parseFloat(match[1]) : undefined;
+  };
+
+  const width = parseLength(readAttribute('width'));
+  const height = parseLength(readAttribute('height'));
+  const viewBox = readAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  const hasViewBox = viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0;
+
+  if (width !== undefined && height !== undefined) {
+    return { width: Math.round(width), height: Math.round(height) };
+  }
+
+  if (!hasViewBox || !viewBox) {
+    return undefined;
+  }
+
+  // Keep the viewBox aspect ratio when only one dimension is given
+  const [, , viewBoxWidth, viewBoxHeight] = viewBox;
+  if (width !== undefined) {
+    return { width: Math.round(width), height: Math.round(width * viewBoxHeight / viewBoxWidth) };
+  }
+  if (height !== undefined) {
+    return { width: Math.round(height * viewBoxWidth / viewBoxHeight), height: Math.round(height) };
+  }
+
+  return { width: Math.round(viewBoxWidth), height: Math.round(viewBoxHeight) };
+}
@@ -3,42 +3,101 @@
 import { Command } from 'commander';
 import fs from 'fs';
 import path from 'path';
-import { glob } from 'glob';
-import chokidar from 'chokidar';
-import { generateAssetVariables } from './generator';
-import { loadConfig, DEFAULT_JSON_CONFIG, DEFAULT_TS_CONFIG } from './config';
+import {
+  loadConfig,
+  findConfigFile,
+  resolveConfigEntries,
+  ConfigError,
+  DEFAULT_JSON_CONFIG,
+  DEFAULT_TS_CONFIG
+} from './config';
+import { formatNameIssues, NameCollisionError } from './naming';
+import { diffGeneratedCode, formatAssetDiff } from './check';
+import { generate, GenerateResult, PublicDirNotFoundError } from './api';
+import { PluginError } from './plugins';
+import { Config } from './types';
+import { AssetWatcher, watchAssets } from './watch';
+import { MigrationReport, migrateSources, UnsupportedMigrationFormatError } from './migrate';
+import {
+  DEFAULT_SOURCE_GLOBS,
+  deleteUnusedAssets,
+  findUnusedAssets,
+  formatBytes,
+  NoSourceFilesError,
+  UnusedAssetsReport
+} from './unused';
+import { createLogger, LOG_FORMATS, LogFormat, Logger, resolveLogLevel } from './logger';
+import { CONFIG_SCHEMA_REFERENCE, createConfigSchema } from './schema';
+import { ENVIRONMENT_ENV_VAR } from './prefix';
 
-const program = new Command();
+export { generate, generateEntries, findAssetFiles, PublicDirNotFoundError } from './api';
+export type { GenerateOptions, GenerateResult, GeneratedAsset } from './api';
+export {
+  loadConfig,
+  defineConfig,
+  findConfigFile,
+  resolveConfigEntries,
+  ConfigError,
+  ConfigValidationError,
+  CONFIG_FILE_NAMES,
+  DEFAULT_JSON_CONFIG,
+  DEFAULT_TS_CONFIG
+} from './config';
+export { validateConfig, createConfigSchema, CONFIG_SCHEMA_FILE_NAME } from './schema';
+export type { ConfigIssue } from './schema';
+export { ENVIRONMENT_ENV_VAR, getPathPrefix } from './prefix';
+export { detectLocale } from './locales';
+export type { LocaleConvention, LocaleMatch, LocaleOptions } from './locales';
+export { detectTheme } from './themes';
+export type { ThemeMatch, ThemeOptions } from './themes';
+export { detectResponsiveVariant, getSrcSet } from './responsive';
+export type { ResponsiveDescriptorKind, ResponsiveMatch, ResponsiveOptions } from './responsive';
+export { optimizeSvg } from './svg';
+export type { AssetSvg, SvgMode, SvgOptions } from './svg';
+export type { InlinedAsset } from './inline';
+export { getMimeType } from './mime';
+export { inferJsonType } from './json';
+export type { AssetManifest, AssetManifestEntry } from './manifest';
+export { DEFAULT_ASSET_KINDS, getAssetKind } from './kinds';
+export type { GroupBy } from './kinds';
+export { parseFontFileName } from './fonts';
+export type { FontDescriptor, FontOptions, FontOutput, FontOverride } from './fonts';
+export { NameCollisionError } from './naming';
+export { PluginError } from './plugins';
+export type { AssetLinkPlugin, PluginContext, PluginEntry } from './plugins';
+export { createLogger } from './logger';
+export { watchAssets, DEFAULT_WATCH_DEBOUNCE_MS } from './watch';
+export type { AssetWatcher, WatchOptions } from './watch';
+export { findUnusedAssets, deleteUnusedAssets, DEFAULT_SOURCE_GLOBS, SOURCE_IGNORE_PATTERNS, NoSourceFilesError } from './unused';
+export type { FindUnusedOptions, UnusedAsset, UnusedAssetsReport } from './unused';
+export { migrateSources, UnsupportedMigrationFormatError } from './migrate';
+export type { MigrateOptions, MigratedFile, MigrationReport, PathLiteral, ReplacedLiteral } from './migrate';
+export type { Logger, LoggerOptions, LogLevel, LogFormat, LogData } from './logger';
+export * from './types';
 
-program
-  .name('public-asset-link')
-  .description('A CLI tool for generating TypeScript variables from NextJS public assets')
-  .version('1.0.0');
-
-program
-  .command('init')
-  .description('Initialize a configuration file')
-  .option('-t, --typescript', 'Create a TypeScript config file instead of JSON')
-  .action((options) => {
-    const configFile = path.join(
-      process.cwd(), 
-      options.typescript ? 'asset-link.config.ts' : 'asset-link.config.json'
-    );
-    
-    if (fs.existsSync(configFile)) {
-      console.log('Configuration file already exists');
-      return;
-    }
-    
-    if (options.typescript) {
-      // Create TypeScript config template
-      const tsConfigContent = `import { TsConfig } from './src/types';
+/**
+ * Creates a configuration file in the current directory
+ */
+export function initConfig(options: { typescript?: boolean }, logger: Logger = createLogger()): void {
+  const configFile = path.join(
+    process.cwd(), 
+    options.typescript ? 'asset-link.config.ts' : 'asset-link.config.json'
+  );
+  
+  if (fs.existsSync(configFile)) {
+    logger.info(`Configuration file already exists at ${configFile}`, { event: 'config-exists', configFile });
+    return;
+  }
+  
+  if (options.typescript) {
+    // Create TypeScript config template
+    const tsConfigContent = `import { defineConfig } from 'asset-link';
 import path from 'path';
 
 /**
  * Asset Link TypeScript configuration
  */
-const config: TsConfig = {
+export default defineConfig({
   publicDir: './public',
   outputFile: './src/generated/assetPaths.ts',
   excludePatterns: ['**/.*', '**/node_modules/**'],
@@ -75,123 +134,510 @@ const config: TsConfig = {
     }
     return true;
   }
-};
-
-export default config;
+});
 `;
-      fs.writeFileSync(configFile, tsConfigContent);
-    } else {
-      // Create JSON config
-      fs.writeFileSync(
-        configFile,
-        JSON.stringify(DEFAULT_JSON_CONFIG, null, 2)
-      );
-    }
-    
-    console.log(`Configuration file created at ${configFile}`);
-  });
+    fs.writeFileSync(configFile, tsConfigContent);
+  } else {
+    // Create JSON config, with the schema editors use for completion
+    fs.writeFileSync(
+      configFile,
+      JSON.stringify({ $schema: CONFIG_SCHEMA_REFERENCE, ...DEFAULT_JSON_CONFIG }, null, 2)
+    );
+  }
+  
+  logger.info(`Configuration file created at ${configFile}`, { event: 'config-created', configFile });
+}
 
-program
-  .command('generate')
-  .description('Generate TypeScript variables from public assets')
-  .option('-c, --config <path>', 'path to config file', './asset-link.config.json')
-  .action(async (options) => {
-    const config = loadConfig(options.config);
-    await generateAssetFiles(config);
-    console.log('Asset variables generated successfully!');
-  });
+/**
+ * Writes the JSON Schema of configuration files to a file, or prints it
+ */
+export function writeConfigSchema(outputFile: string | undefined, logger: Logger = createLogger()): void {
+  const schema = JSON.stringify(createConfigSchema(), null, 2) + '\n';
+  if (outputFile === undefined) {
+    process.stdout.write(schema);
+    return;
+  }
+  fs.writeFileSync(outputFile, schema);
+  logger.info(`Configuration schema written to ${outputFile}`, { event: 'schema-written', outputFile });
+}
 
-program
-  .command('watch')
-  .description('Watch for changes in public assets and regenerate variables')
-  .option('-c, --config <path>', 'path to config file', './asset-link.config.json')
-  .action((options) => {
-    const config = loadConfig(options.config);
-    console.log(`Watching for changes in ${config.publicDir}...`);
-    
-    // Initial generation
-    generateAssetFiles(config);
-    
-    // Watch for changes
-    const watcher = chokidar.watch(config.publicDir, {
-      ignored: /(^|[\/\\])\../, // ignore dotfiles
-      persistent: true
+/**
+ * Prints an error raised by the programmatic API
+ */
+function reportError(action: string, error: unknown, logger: Logger): void {
+  if (
+    error instanceof NameCollisionError
+    || error instanceof PublicDirNotFoundError
+    || error instanceof PluginError
+    || error instanceof UnsupportedMigrationFormatError
+    || error instanceof NoSourceFilesError
+    || error instanceof ConfigError
+  ) {
+    logger.error(error.message, { event: 'error', error: error.name });
+  } else {
+    logger.error(`Error ${action}: ${error instanceof Error ? error.stack : error}`, { event: 'error' });
+  }
+  process.exitCode = 1;
+}
+
+/**
+ * Prints the decisions of a generation: every file at debug level, warnings at warn level
+ */
+function reportDecisions(result: GenerateResult, logger: Logger): void {
+  logger.debug(`Scanned assets in: ${result.publicDir}`, { event: 'scan', publicDir: result.publicDir });
+  result.files.included.forEach(file => logger.debug(` + ${file}`, { event: 'file-included', filePath: file }));
+  result.files.excluded.forEach(file => logger.debug(` - ${file.filePath} (${file.reason})`, {
+    event: 'file-excluded',
+    filePath: file.filePath,
+    reason: file.reason
+  }));
+  result.inlined.forEach(asset => logger.debug(` * ${asset.filePath} inlined as ${asset.mimeType} (${formatBytes(asset.size)})`, {
+    event: 'file-inlined',
+    filePath: asset.filePath,
+    mimeType: asset.mimeType,
+    size: asset.size
+  }));
+  if (result.renamed.length > 0) {
+    logger.debug(`Renamed ${result.renamed.length} asset variable(s):\n${formatNameIssues(result.renamed)}`, {
+      event: 'renamed',
+      renamed: result.renamed
     });
-    
-    watcher
-      .on('add', () => generateAssetFiles(config))
-      .on('unlink', () => generateAssetFiles(config))
-      .on('change', () => generateAssetFiles(config));
-      
-    console.log('Watching for file changes...');
-  });
+  }
+  result.warnings.forEach(warning => logger.warn(warning, { event: 'warning' }));
+  if (result.files.included.length === 0) {
+    logger.warn(`No assets found in ${result.publicDir}. Make sure your public directory contains assets.`, {
+      event: 'no-assets',
+      publicDir: result.publicDir
+    });
+  }
+}
+
+/**
+ * Prefixes the summaries of a named entry, e.g. "[web] "
+ */
+function entryPrefix(name: string | undefined): string {
+  return name ? `[${name}] ` : '';
+}
+
+/**
+ * Formats the counts of a generation, e.g. "12 assets, 2 excluded, 1 renamed, 3 inlined (1.2 KB)"
+ */
+function formatCounts(result: GenerateResult): string {
+  const counts = [`${result.assets.length} assets`, `${result.files.excluded.length} excluded`];
+  if (result.renamed.length > 0) {
+    counts.push(`${result.renamed.length} renamed`);
+  }
+  if (result.inlined.length > 0) {
+    const inlinedBytes = result.inlined.reduce((total, asset) => total + asset.size, 0);
+    counts.push(`${result.inlined.length} inlined (${formatBytes(inlinedBytes)})`);
+  }
+  return counts.join(', ');
+}
+
+/**
+ * Structured fields summarizing a generation
+ */
+function summaryData(result: GenerateResult): Record<string, unknown> {
+  return {
+    entry: result.name,
+    outputFile: result.outputFile,
+    assets: result.assets.length,
+    excluded: result.files.excluded.length,
+    renamed: result.renamed.length,
+    inlined: result.inlined.length,
+    inlinedBytes: result.inlined.reduce((total, asset) => total + asset.size, 0),
+    warnings: result.warnings.length,
+    changed: result.changed,
+    written: result.written
+  };
+}
+
+/**
+ * Prints the decisions of a generation and a summary line
+ * @param unchangedLogLevel Level of the summary when the output file was left unchanged
+ */
+function reportGeneration(result: GenerateResult, logger: Logger, unchangedLogLevel: 'info' | 'debug' = 'info'): void {
+  reportDecisions(result, logger);
+  result.emittedFiles
+    .filter(file => file.written)
+    .forEach(file => logger.debug(`Emitted file: ${file.filePath}`, { event: 'file-emitted', filePath: file.filePath }));
+  if (result.manifest?.written) {
+    logger.debug(`Manifest written: ${result.manifest.filePath} (${result.manifest.assets.length} assets)`, {
+      event: 'manifest-written',
+      filePath: result.manifest.filePath,
+      assets: result.manifest.assets.length
+    });
+  }
+  
+  if (result.written) {
+    // Log the first part of the generated content
+    const previewLines = result.code.split('\n').slice(0, 15).join('\n');
+    logger.debug(`Preview of generated content:\n${previewLines}`, { event: 'preview' });
+    logger.info(`${entryPrefix(result.name)}Generated ${result.outputFile} (${formatCounts(result)})`, { event: 'generated', ...summaryData(result) });
+  } else {
+    logger[unchangedLogLevel](`${entryPrefix(result.name)}Up to date: ${result.outputFile} (${formatCounts(result)})`, {
+      event: 'generated',
+      ...summaryData(result)
+    });
+  }
+}
+
+/**
+ * Generates the asset variables file and prints a summary of what was done
+ */
+export async function generateAssetFiles(
+  config: Config,
+  logger: Logger = createLogger()
+): Promise<GenerateResult | undefined> {
+  try {
+    const result = await generate(config);
+    reportGeneration(result, logger);
+    return result;
+  } catch (error) {
+    reportError('generating asset files', error, logger);
+    return undefined;
+  }
+}
 
-async function generateAssetFiles(config: any): Promise<void> {
+/**
+ * Generates the asset file in memory and compares it with the one on disk, without writing anything
+ * @returns True if the file on disk is up to date
+ */
+export async function checkAssetFiles(config: Config, logger: Logger = createLogger()): Promise<boolean> {
   try {
-    // Convert relative paths to absolute paths for reliable file operations
-    const publicDirAbs = path.resolve(process.cwd(), config.publicDir);
-    console.log(`Scanning for assets in: ${publicDirAbs}`);
+    const result = await generate(config, { write: false });
+    reportDecisions(result, logger);
+    
+    const staleEmittedFiles = result.emittedFiles.filter(file => file.changed);
+    staleEmittedFiles.forEach(file => logger.error(`Emitted file is out of date: ${file.filePath}`, {
+      event: 'stale-emitted-file',
+      filePath: file.filePath
+    }));
     
-    // Check if directory exists
-    if (!fs.existsSync(publicDirAbs)) {
-      console.error(`Public directory does not exist: ${publicDirAbs}`);
-      return;
+    if (!result.changed) {
+      logger.info(`${entryPrefix(result.name)}Up to date: ${result.outputFile} (${formatCounts(result)})`, { event: 'check', ...summaryData(result) });
+      return staleEmittedFiles.length === 0;
     }
     
-    console.log('Files in public directory before glob:');
-    fs.readdirSync(publicDirAbs).forEach(file => {
-      console.log(` - ${file}`);
-    });
+    if (!fs.existsSync(result.outputFile)) {
+      logger.error(`${entryPrefix(result.name)}Generated file not found at ${result.outputFile}. Run "public-asset-link generate" to create it.`, {
+        event: 'check',
+        ...summaryData(result)
+      });
+      return false;
+    }
     
-    // Find all files in the public directory matching the patterns
-    console.log(`Searching for files with glob: ${publicDirAbs}/**/*`);
-    const files = await glob(`${publicDirAbs}/**/*`, {
-      ignore: config.excludePatterns.map((pattern: string) => {
-        // Keep the pattern as is if it starts with **/.
-        if (pattern.startsWith('**/.')) {
-          return path.join(publicDirAbs, pattern);
-        }
-        // Otherwise remove the **/ prefix as before
-        return path.join(publicDirAbs, pattern.replace(/^\*\*\//, ''));
-      }),
-      nodir: true
+    const diff = diffGeneratedCode(fs.readFileSync(result.outputFile, 'utf8'), result.code);
+    logger.error(
+      `${entryPrefix(result.name)}Generated asset paths file is out of date: ${result.outputFile}\n${formatAssetDiff(diff)}\n`
+        + 'Run "public-asset-link generate" to update it.',
+      { event: 'check', ...summaryData(result), diff }
+    );
+    return false;
+  } catch (error) {
+    reportError('checking asset files', error, logger);
+    return false;
+  }
+}
+
+/**
+ * Generates the asset variables file of every entry, then regenerates them whenever their public directory
+ * or the configuration file changes
+ * @param entries Only watch the entries with these names
+ */
+export async function watchAssetFiles(
+  config: Config,
+  logger: Logger = createLogger(),
+  configPath?: string,
+  entries?: string[]
+): Promise<AssetWatcher | undefined> {
+  const reportedOutputFiles = new Set<string>();
+  
+  try {
+    return await watchAssets(config, {
+      configPath,
+      entries,
+      logger,
+      onGenerate: result => {
+        // Only the first summary of each output file is printed when nothing changed, to keep the output quiet
+        reportGeneration(result, logger, reportedOutputFiles.has(result.outputFile) ? 'debug' : 'info');
+        reportedOutputFiles.add(result.outputFile);
+      },
+      onError: error => reportError('generating asset files', error, logger)
     });
-    
-    console.log(`Found ${files.length} files to process`);
-    if (files.length > 0) {
-      console.log('Files found by glob:');
-      files.forEach(file => console.log(` - ${file}`));
-    } else {
-      console.log(`No files found in ${publicDirAbs}. Make sure your public directory contains assets.`);
-      // If no files found, create a test file to verify path handling
-      const testFile = path.join(publicDirAbs, 'test-auto.json');
-      console.log(`Creating test file at: ${testFile}`);
-      fs.writeFileSync(testFile, JSON.stringify({ test: "Test data" }, null, 2));
-      console.log(`Test file created. Please run the command again.`);
-      return;
+  } catch (error) {
+    reportError('watching asset files', error, logger);
+    return undefined;
+  }
+}
+
+/**
+ * Lists the assets that no source file references, optionally deleting them
+ */
+export async function reportUnusedAssets(
+  config: Config,
+  options: { sources?: string[]; delete?: boolean; dryRun?: boolean },
+  logger: Logger = createLogger()
+): Promise<UnusedAssetsReport | undefined> {
+  try {
+    const report = await findUnusedAssets(config, { sources: options.sources });
+    logger.debug(`Scanned ${report.sources.length} source files`, { event: 'sources', sources: report.sources });
+    if (report.sources.length === 0) {
+      logger.warn(`No source file matches ${report.sourceGlobs.join(', ')}, every asset is reported as unused`, {
+        event: 'no-sources',
+        sourceGlobs: report.sourceGlobs
+      });
     }
+    report.unused.forEach(asset => logger.info(`  ${asset.relativePath} (${formatBytes(asset.size)})`, {
+      event: 'unused-asset',
+      filePath: asset.filePath,
+      name: asset.name,
+      size: asset.size
+    }));
+    logger.info(
+      `${entryPrefix(config.name)}${report.unused.length} unused assets (${formatBytes(report.totalSize)}), ${report.referenced} referenced`,
+      { event: 'unused', unused: report.unused.length, referenced: report.referenced, totalSize: report.totalSize }
+    );
     
-    // Generate TypeScript code from the assets
-    const generatedCode = generateAssetVariables(files, config);
-    
-    // Write the output file
-    const outputFileAbs = path.resolve(process.cwd(), config.outputFile);
-    const outputDir = path.dirname(outputFileAbs);
-    
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
+    if (options.delete || options.dryRun) {
+      const deleted = deleteUnusedAssets(report, options.dryRun);
+      const verb = options.dryRun ? 'Would delete' : 'Deleted';
+      deleted.forEach(filePath => logger.info(`${verb} ${filePath}`, { event: 'delete', filePath, dryRun: !!options.dryRun }));
+      if (!options.dryRun && deleted.length > 0) {
+        logger.info('Run "public-asset-link generate" to update the generated file.');
+      }
     }
+    return report;
+  } catch (error) {
+    reportError('finding unused assets', error, logger);
+    return undefined;
+  }
+}
+
+/**
+ * Replaces the hard-coded asset paths of the source files with the generated variables
+ * and prints a summary per file
+ */
+export async function migrateSourceFiles(
+  config: Config,
+  options: { sources?: string[]; dryRun?: boolean },
+  logger: Logger = createLogger()
+): Promise<MigrationReport | undefined> {
+  try {
+    const report = await migrateSources(config, { sources: options.sources, write: !options.dryRun });
     
-    fs.writeFileSync(outputFileAbs, generatedCode);
-    console.log(`Generated asset paths file at: ${outputFileAbs}`);
-    console.log(`Generated content length: ${generatedCode.length} characters`);
+    report.files.forEach(file => {
+      const relativePath = path.relative(process.cwd(), file.filePath);
+      logger.info(`${relativePath}: ${file.replaced.length} replaced, ${file.broken.length} broken`, {
+        event: 'migrated-file',
+        filePath: file.filePath,
+        replaced: file.replaced.length,
+        broken: file.broken.length
+      });
+      file.replaced.forEach(literal => logger.debug(`  ${relativePath}:${literal.line} ${literal.literal} -> ${literal.expression}`, {
+        event: 'replaced-literal',
+        filePath: file.filePath,
+        ...literal
+      }));
+      file.broken.forEach(literal => logger.warn(`  ${relativePath}:${literal.line} broken reference ${literal.literal}`, {
+        event: 'broken-reference',
+        filePath: file.filePath,
+        ...literal
+      }));
+    });
     
-    // Log the first part of the generated content
-    const previewLines = generatedCode.split('\n').slice(0, 15).join('\n');
-    console.log(`Preview of generated content:\n${previewLines}`);
+    const verb = options.dryRun ? 'Would replace' : 'Replaced';
+    logger.info(
+      `${entryPrefix(config.name)}${verb} ${report.replaced} path literals in ${report.files.filter(file => file.changed).length} files, `
+        + `${report.broken} broken references`,
+      { event: 'migrate', replaced: report.replaced, broken: report.broken, dryRun: !!options.dryRun }
+    );
+    return report;
   } catch (error) {
-    console.error('Error generating asset files:', error);
+    reportError('migrating source files', error, logger);
+    return undefined;
   }
 }
 
-program.parse(process.argv);
\ No newline at end of file
+interface LoggingOptions {
+  verbose?: boolean;
+  quiet?: boolean;
+  logFormat: string;
+}
+
+interface ConfigOptions {
+  config?: string;
+  entry?: string[];
+  env?: string;
+}
+
+/**
+ * Adds the --verbose, --quiet and --log-format options to a command
+ */
+function withLoggingOptions(command: Command): Command {
+  return command
+    .option('-v, --verbose', 'print every scanned file and decision')
+    .option('-q, --quiet', 'only print errors')
+    .option('--log-format <format>', `log format (${LOG_FORMATS.join(', ')})`, 'text');
+}
+
+/**
+ * Creates the logger selected by the logging options of a command
+ */
+function createCommandLogger(options: LoggingOptions): Logger {
+  if (!LOG_FORMATS.includes(options.logFormat as LogFormat)) {
+    program.error(`Invalid log format: ${options.logFormat} (expected one of ${LOG_FORMATS.join(', ')})`);
+  }
+  return createLogger({ level: resolveLogLevel(options), format: options.logFormat as LogFormat });
+}
+
+/**
+ * Adds the --config and --entry options to a command
+ */
+function withConfigOptions(command: Command): Command {
+  return command
+    .option('-c, --config <path>', 'path to config file (default: discovered from the current directory upward)')
+    .option('-e, --entry <names...>', 'only run the entries with these names')
+    .option('--env <name>', `environment whose overrides are applied (default: $${ENVIRONMENT_ENV_VAR})`);
+}
+
+/**
+ * Finds the configuration file of a command; a discovered file makes its directory the project root
+ * that relative paths are resolved from
+ */
+function resolveConfigPath(options: ConfigOptions, logger: Logger): string | undefined {
+  if (options.config !== undefined) {
+    return options.config;
+  }
+  
+  const configFile = findConfigFile();
+  if (configFile && path.dirname(configFile) !== process.cwd()) {
+    logger.debug(`Using project root ${path.dirname(configFile)}`, { event: 'project-root', configFile });
+    process.chdir(path.dirname(configFile));
+  }
+  return configFile;
+}
+
+/**
+ * Loads the configuration of a command
+ */
+async function loadCommandConfig(options: ConfigOptions, logger: Logger): Promise<{ config: Config; configPath?: string } | undefined> {
+  if (options.env !== undefined) {
+    // Entries resolve the environment from the variable, including when watch mode reloads the config
+    process.env[ENVIRONMENT_ENV_VAR] = options.env;
+  }
+  if (process.env[ENVIRONMENT_ENV_VAR]) {
+    logger.debug(`Using environment ${process.env[ENVIRONMENT_ENV_VAR]}`, {
+      event: 'environment',
+      environment: process.env[ENVIRONMENT_ENV_VAR]
+    });
+  }
+
+  try {
+    const configPath = resolveConfigPath(options, logger);
+    return { config: await loadConfig(configPath, logger), configPath };
+  } catch (error) {
+    reportError('loading configuration', error, logger);
+    return undefined;
+  }
+}
+
+/**
+ * Loads the configuration of a command and resolves the selected entries
+ */
+async function loadCommandEntries(options: ConfigOptions, logger: Logger): Promise<Config[]> {
+  const loaded = await loadCommandConfig(options, logger);
+  if (!loaded) {
+    return [];
+  }
+  
+  try {
+    return resolveConfigEntries(loaded.config, options.entry);
+  } catch (error) {
+    reportError('loading configuration', error, logger);
+    return [];
+  }
+}
+
+const program = new Command();
+
+program
+  .name('public-asset-link')
+  .description('A CLI tool for generating TypeScript variables from NextJS public assets')
+  .version('1.0.0');
+
+withLoggingOptions(program
+  .command('init')
+  .description('Initialize a configuration file')
+  .option('-t, --typescript', 'Create a TypeScript config file instead of JSON'))
+  .action((options) => initConfig(options, createCommandLogger(options)));
+
+withLoggingOptions(program
+  .command('schema')
+  .description('Print the JSON Schema of configuration files')
+  .option('-o, --output <path>', 'write the schema to a file instead'))
+  .action((options) => writeConfigSchema(options.output, createCommandLogger(options)));
+
+withLoggingOptions(withConfigOptions(program
+  .command('generate')
+  .description('Generate TypeScript variables from public assets')))
+  .action(async (options) => {
+    const logger = createCommandLogger(options);
+    for (const entry of await loadCommandEntries(options, logger)) {
+      await generateAssetFiles(entry, logger);
+    }
+  });
+
+withLoggingOptions(withConfigOptions(program
+  .command('watch')
+  .description('Watch for changes in public assets and regenerate variables')))
+  .action(async (options) => {
+    const logger = createCommandLogger(options);
+    const loaded = await loadCommandConfig(options, logger);
+    if (loaded) {
+      await watchAssetFiles(loaded.config, logger, loaded.configPath, options.entry);
+    }
+  });
+
+withLoggingOptions(withConfigOptions(program
+  .command('check')
+  .description('Check that the generated file is up to date with the public assets')))
+  .action(async (options) => {
+    const logger = createCommandLogger(options);
+    for (const entry of await loadCommandEntries(options, logger)) {
+      const upToDate = await checkAssetFiles(entry, logger);
+      if (!upToDate) {
+        process.exitCode = 1;
+      }
+    }
+  });
+
+withLoggingOptions(withConfigOptions(program
+  .command('unused')
+  .description('List the assets that are not referenced by any source file')
+  .argument('[sources...]', 'globs of the source files to scan', DEFAULT_SOURCE_GLOBS)
+  .option('--delete', 'delete the unused assets')
+  .option('--dry-run', 'print the assets that --delete would remove, without deleting them')))
+  .action(async (sources: string[], options) => {
+    const logger = createCommandLogger(options);
+    for (const entry of await loadCommandEntries(options, logger)) {
+      await reportUnusedAssets(entry, { sources, delete: options.delete, dryRun: options.dryRun }, logger);
+    }
+  });
+
+withLoggingOptions(withConfigOptions(program
+  .command('migrate')
+  .description('Replace hard-coded public paths in source files with the generated variables')
+  .argument('[sources...]', 'globs of the source files to migrate', DEFAULT_SOURCE_GLOBS)
+  .option('--dry-run', 'print what would be replaced, without writing the files')))
+  .action(async (sources: string[], options) => {
+    const logger = createCommandLogger(options);
+    for (const entry of await loadCommandEntries(options, logger)) {
+      await migrateSourceFiles(entry, { sources, dryRun: options.dryRun }, logger);
+    }
+  });
+
+// Only run the CLI when executed directly, not when imported as a library
+if (require.main === module) {
+  program.parse(process.argv);
+}
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import { BaseConfig, AssetGroup } from './types';
+import { flattenAssetTree } from './tree';
+import { getMimeType } from './mime';
+import { matchesExcludePatterns } from './patterns';
+
+/**
+ * A file inlined into the generated module as a data URI
+ */
+export interface InlinedAsset {
+  filePath: string;
+  relativePath: string;
+  mimeType: string;
+  /**
+   * Bytes of the data URI added to the generated module
+   */
+  size: number;
+}
+
+/**
+ * Checks whether a file is inlined: smaller than the threshold, matching the include patterns
+ * (every file when there are none) and none of the exclude patterns
+ */
+export function shouldInlineFile(
+  relativePath: string,
+  size: number,
+  config: Pick<BaseConfig, 'inlineThreshold' | 'inlineInclude' | 'inlineExclude'>
+): boolean {
+  if (config.inlineThreshold === undefined || size >= config.inlineThreshold) {
+    return false;
+  }
+  if (config.inlineInclude && !matchesExcludePatterns(relativePath, config.inlineInclude)) {
+    return false;
+  }
+  return !matchesExcludePatterns(relativePath, config.inlineExclude ?? []);
+}
+
+/**
+ * Encodes SVG markup for a data URI, only escaping the characters that need it so the markup stays readable
+ *
+ * Both quote types are escaped rather than swapped, since attribute values may contain the other
+ * one. Whitespace is kept for the text of the image, line breaks and tabs being escaped.
+ */
+function encodeSvgMarkup(markup: string): string {
+  return markup
+    .trim()
+    .replace(/[\t\n\r"%'#<>?[\\\]^`{|}]/g, char => '%' + ('0' + char.charCodeAt(0).toString(16).toUpperCase()).slice(-2));
+}
+
+/**
+ * Creates the data URI of a file: URL-encoded for SVG files, base64-encoded otherwise
+ */
+export function createDataUri(filePath: string): string {
+  const mimeType = getMimeType(filePath);
+  const content = fs.readFileSync(filePath);
+  return mimeType === 'image/svg+xml'
+    ? `data:${mimeType},${encodeSvgMarkup(content.toString('utf8'))}`
+    : `data:${mimeType};base64,${content.toString('base64')}`;
+}
+
+/**
+ * Lists the files of the tree inlined as data URIs, including the variants of grouped assets
+ */
+export function listInlinedAssets(tree: AssetGroup): InlinedAsset[] {
+  const inlined = new Map<string, InlinedAsset>();
+
+  flattenAssetTree(tree).forEach(({ entry }) => {
+    const keyedVariants = entry.locales ?? entry.themes;
+    const entries = keyedVariants ? Object.keys(keyedVariants).map(key => keyedVariants[key]) : [entry, ...(entry.variants ?? [])];
+    entries.forEach(({ filePath, relativePath, dataUri }) => {
+      if (dataUri !== undefined) {
+        inlined.set(filePath, { filePath, relativePath, mimeType: getMimeType(filePath), size: Buffer.byteLength(dataUri) });
+      }
+    });
+  });
+
+  return Array.from(inlined.values());
+}
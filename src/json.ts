@@ -0,0 +1,192 @@
+import fs from 'fs';
+import path from 'path';
+import { AssetEntry, AssetGroup } from './types';
+import { flattenAssetTree, isAssetEntry } from './tree';
+import { ASSET_PREFIX_NAME, OutputFormat, RuntimePrefix, toStringLiteral } from './formats';
+
+/**
+ * Top-level names declared by the JSON helpers
+ */
+export const JSON_HELPER_NAMES = ['JsonAssets', 'JsonAssetPath', 'fetchAsset'];
+
+/**
+ * Checks whether a file gets a type inferred from its content
+ */
+export function isJsonFile(filePath: string): boolean {
+  return path.extname(filePath).toLowerCase() === '.json';
+}
+
+/**
+ * Formats a property name of an object type, quoted when it is not a valid identifier
+ */
+function toTypePropertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : toStringLiteral(key);
+}
+
+/**
+ * Infers the members of the union type shared by several JSON values: the arrays are merged
+ * into one array type, and the objects into one object type
+ */
+function inferUnionMembers(values: unknown[]): string[] {
+  const members = new Set<string>();
+  const arrays: unknown[][] = [];
+  const objects: Array<Record<string, unknown>> = [];
+
+  values.forEach(value => {
+    if (Array.isArray(value)) {
+      arrays.push(value);
+    } else if (value !== null && typeof value === 'object') {
+      objects.push(value as Record<string, unknown>);
+    } else {
+      members.add(value === null ? 'null' : typeof value);
+    }
+  });
+
+  if (arrays.length > 0) {
+    const items = inferUnionMembers(([] as unknown[]).concat(...arrays));
+    members.add(items.length === 0 ? 'unknown[]' : items.length === 1 ? `${items[0]}[]` : `Array<${items.join(' | ')}>`);
+  }
+  if (objects.length > 0) {
+    members.add(inferObjectType(objects));
+  }
+
+  return Array.from(members);
+}
+
+/**
+ * Infers the object type shared by several JSON objects, the properties missing from some of them being optional
+ */
+function inferObjectType(objects: Array<Record<string, unknown>>): string {
+  const keys = Array.from(new Set(([] as string[]).concat(...objects.map(object => Object.keys(object)))));
+  if (keys.length === 0) {
+    return 'Record<string, never>';
+  }
+
+  const properties = keys.map(key => {
+    const values = objects.filter(object => Object.prototype.hasOwnProperty.call(object, key)).map(object => object[key]);
+    const optional = values.length < objects.length ? '?' : '';
+    return `${toTypePropertyKey(key)}${optional}: ${inferUnionMembers(values).join(' | ')}`;
+  });
+  return `{ ${properties.join('; ')} }`;
+}
+
+/**
+ * Infers a TypeScript type from a parsed JSON value, on a single line
+ *
+ * Primitives are widened (string rather than 'abc') since the file may change without the code
+ * being regenerated, and the items of arrays are merged into one type.
+ */
+export function inferJsonType(value: unknown): string {
+  return inferUnionMembers([value]).join(' | ');
+}
+
+/**
+ * Reads a JSON file and infers its type
+ * @returns undefined when the file is not valid JSON
+ */
+export function readJsonType(filePath: string): string | undefined {
+  try {
+    return inferJsonType(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the type of an entry, merging the types of its locale or theme variants
+ */
+function getEntryJsonType(entry: AssetEntry): string | undefined {
+  const keyedVariants = entry.locales ?? entry.themes;
+  if (!keyedVariants) {
+    return entry.jsonType;
+  }
+  const types = Object.keys(keyedVariants)
+    .map(key => keyedVariants[key].jsonType)
+    .filter((type): type is string => type !== undefined);
+  return types.length > 0 ? Array.from(new Set(types)).join(' | ') : undefined;
+}
+
+/**
+ * Names the types of the JSON entries after their variable, e.g. config -> ConfigJson,
+ * numbering duplicates within a group
+ */
+export function getJsonTypeNames(group: AssetGroup): Map<AssetEntry, string> {
+  const names = new Map<AssetEntry, string>();
+  const usedNames = new Set<string>();
+
+  Object.entries(group).forEach(([key, node]) => {
+    if (!isAssetEntry(node)) {
+      getJsonTypeNames(node).forEach((name, entry) => names.set(entry, name));
+      return;
+    }
+    if (getEntryJsonType(node) === undefined) {
+      return;
+    }
+    const baseName = key.split(/[^A-Za-z0-9]+/)
+      .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('') + 'Json';
+    let name = baseName;
+    for (let counter = 2; usedNames.has(name); counter++) {
+      name = `${baseName}${counter}`;
+    }
+    usedNames.add(name);
+    names.set(node, name);
+  });
+
+  return names;
+}
+
+/**
+ * Generates the declaration of the type of a JSON entry, declared next to its path constant by the namespace format
+ */
+export function generateJsonTypeDeclaration(entry: AssetEntry, typeName: string): string {
+  return `export type ${typeName} = ${getEntryJsonType(entry)};`;
+}
+
+/**
+ * Generates the JsonAssets map of the inferred types keyed by URL, and the typed fetchAsset() helper
+ *
+ * The namespace format refers to the types declared next to the path constants, the other formats
+ * inline them.
+ * @param runtimePrefix Prefix added by fetchAsset() at runtime; the listed paths stay unprefixed
+ */
+export function generateJsonHelpersCode(group: AssetGroup, format: OutputFormat, runtimePrefix?: RuntimePrefix): string {
+  const typeNames = getJsonTypeNames(group);
+  const members = new Map<string, string>();
+
+  flattenAssetTree(group).forEach(({ path: names, entry }) => {
+    const typeName = typeNames.get(entry);
+    if (typeName === undefined) {
+      return;
+    }
+    const type = format === 'namespace' ? [...names.slice(0, -1), typeName].join('.') : getEntryJsonType(entry)!;
+    const keyedVariants = entry.locales ?? entry.themes;
+    const values = keyedVariants ? Object.keys(keyedVariants).map(key => keyedVariants[key].value) : [entry.value];
+    values.forEach(value => members.set(value, type));
+  });
+
+  const properties = Array.from(members, ([value, type]) => `  ${toStringLiteral(value)}: ${type};\n`).join('');
+  const url = runtimePrefix
+    ? `path.charAt(0) === '/' && path.charAt(1) !== '/' ? ${ASSET_PREFIX_NAME} + path : path`
+    : 'path';
+
+  return `/**
+ * Types inferred from the content of the JSON assets, keyed by URL
+ */
+export interface JsonAssets {
+${properties}}
+
+export type JsonAssetPath = keyof JsonAssets;
+
+/**
+ * Fetches a JSON asset, typed with the type inferred from its content
+ */
+export async function fetchAsset<P extends JsonAssetPath>(path: P, init?: RequestInit): Promise<JsonAssets[P]> {
+  const response = await fetch(${url}, init);
+  if (!response.ok) {
+    throw new Error(\`Failed to fetch \${path}: \${response.status} \${response.statusText}\`);
+  }
+  return response.json();
+}
+`;
+}
@@ -0,0 +1,126 @@
+import path from 'path';
+import { AssetGroup } from './types';
+import { flattenAssetFiles } from './tree';
+import { toStringLiteral } from './formats';
+
+/**
+ * How assets are nested in the generated tree
+ * - 'directory': one group per subdirectory
+ * - 'kind': one group per kind of asset (image, font, video...)
+ * - 'kind-directory': one group per kind, then one group per subdirectory
+ */
+export type GroupBy = 'directory' | 'kind' | 'kind-directory';
+
+export const GROUP_BY_OPTIONS: GroupBy[] = ['directory', 'kind', 'kind-directory'];
+
+/**
+ * Kind of the files whose extension is not in the kind table
+ */
+export const OTHER_KIND = 'other';
+
+/**
+ * Names of the kinds, which are used as group names and in type names
+ */
+export const ASSET_KIND_PATTERN = '^[a-z][A-Za-z0-9]*$';
+
+/**
+ * Kinds of the file extensions commonly found in public directories
+ */
+export const DEFAULT_ASSET_KINDS: Record<string, string> = {
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  avif: 'image',
+  bmp: 'image',
+  svg: 'image',
+  ico: 'image',
+  tif: 'image',
+  tiff: 'image',
+  woff2: 'font',
+  woff: 'font',
+  ttf: 'font',
+  otf: 'font',
+  eot: 'font',
+  mp4: 'video',
+  webm: 'video',
+  ogv: 'video',
+  mov: 'video',
+  m4v: 'video',
+  mp3: 'audio',
+  wav: 'audio',
+  ogg: 'audio',
+  oga: 'audio',
+  m4a: 'audio',
+  aac: 'audio',
+  flac: 'audio',
+  opus: 'audio',
+  pdf: 'document',
+  txt: 'document',
+  md: 'document',
+  csv: 'document',
+  rtf: 'document',
+  doc: 'document',
+  docx: 'document',
+  xls: 'document',
+  xlsx: 'document',
+  ppt: 'document',
+  pptx: 'document',
+  json: 'data',
+  xml: 'data',
+  yaml: 'data',
+  yml: 'data',
+  webmanifest: 'data'
+};
+
+/**
+ * Checks whether the tree is grouped by kind, and whether it is grouped by directory
+ * @param groupBy The groupBy option, which takes precedence over groupByDirectory
+ */
+export function getGrouping(groupBy: GroupBy | undefined, groupByDirectory: boolean): { byKind: boolean; byDirectory: boolean } {
+  if (groupBy === undefined) {
+    return { byKind: false, byDirectory: groupByDirectory };
+  }
+  return { byKind: groupBy !== 'directory', byDirectory: groupBy !== 'kind' };
+}
+
+/**
+ * Returns the kind of a file from its extension
+ * @param assetKinds Kinds of additional extensions, overriding the built-in table (with or without the leading dot)
+ */
+export function getAssetKind(relativePath: string, assetKinds: Record<string, string> = {}): string {
+  const extension = path.extname(relativePath).slice(1).toLowerCase();
+  const customKind = Object.keys(assetKinds).find(key => key.replace(/^\./, '').toLowerCase() === extension);
+  return (customKind !== undefined ? assetKinds[customKind] : DEFAULT_ASSET_KINDS[extension]) ?? OTHER_KIND;
+}
+
+/**
+ * Names the type of the URLs of a kind, e.g. image -> ImageAsset
+ */
+export function getKindTypeName(kind: string): string {
+  return kind.charAt(0).toUpperCase() + kind.slice(1) + 'Asset';
+}
+
+/**
+ * Generates a union type of the URLs of each kind found in the tree, e.g. ImageAsset, in order of appearance
+ */
+export function generateKindTypesCode(group: AssetGroup, assetKinds?: Record<string, string>): string {
+  const urlsByKind = new Map<string, Set<string>>();
+  flattenAssetFiles(group).forEach(({ entry }) => {
+    const kind = getAssetKind(entry.relativePath, assetKinds);
+    urlsByKind.set(kind, (urlsByKind.get(kind) ?? new Set<string>()).add(entry.value));
+  });
+
+  if (urlsByKind.size === 0) {
+    return '';
+  }
+
+  const types = Array.from(urlsByKind, ([kind, urls]) =>
+    `export type ${getKindTypeName(kind)} = ${Array.from(urls, toStringLiteral).join(' | ')};\n`);
+
+  return `/**
+ * URLs of the assets of each kind
+ */
+${types.join('')}`;
+}
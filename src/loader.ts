@@ -0,0 +1,96 @@
+import module from 'module';
+import { pathToFileURL } from 'url';
+
+/**
+ * Module customization hooks compiling .ts and .mts files to ES modules with the TypeScript compiler
+ *
+ * Relative imports of TypeScript modules resolve without extension, with a .js extension or with
+ * their own .ts extension, as with the TypeScript compiler. The version of a configuration import
+ * is passed on to the local modules it imports, so that they are evaluated again on reload.
+ */
+const TYPESCRIPT_LOADER_SOURCE = `
+import fs from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+let ts;
+
+export async function initialize(data) {
+  ts = (await import(data.typescript)).default;
+}
+
+const isTypeScriptUrl = url => url.startsWith('file:') && /\\.m?ts$/.test(new URL(url).pathname);
+
+const withParentVersion = (resolved, parentURL) => {
+  const version = parentURL && new URL(parentURL).searchParams.get('version');
+  if (!version || !resolved.url.startsWith('file:') || resolved.url.includes('/node_modules/')) {
+    return resolved;
+  }
+  const url = new URL(resolved.url);
+  url.searchParams.set('version', version);
+  return { ...resolved, url: url.href };
+};
+
+export async function resolve(specifier, context, nextResolve) {
+  try {
+    return withParentVersion(await nextResolve(specifier, context), context.parentURL);
+  } catch (error) {
+    if (!context.parentURL || !isTypeScriptUrl(context.parentURL) || !/^\\.{1,2}\\//.test(specifier)) {
+      throw error;
+    }
+    for (const candidate of [specifier.replace(/\\.(m?)js$/, '.$1ts'), specifier + '.ts', specifier + '/index.ts']) {
+      try {
+        return withParentVersion(await nextResolve(candidate, context), context.parentURL);
+      } catch {}
+    }
+    throw error;
+  }
+}
+
+export async function load(url, context, nextLoad) {
+  if (!isTypeScriptUrl(url)) {
+    return nextLoad(url, context);
+  }
+  const fileName = fileURLToPath(url);
+  const { outputText } = ts.transpileModule(fs.readFileSync(fileName, 'utf8'), {
+    fileName,
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+  });
+  return { format: 'module', source: outputText, shortCircuit: true };
+}
+`;
+
+let loaderRegistered = false;
+let importCount = 0;
+
+/**
+ * Registers the hooks once per process
+ * @returns Whether the hooks are registered, which requires Node.js 20.6 or later
+ */
+function registerConfigLoader(): boolean {
+  if (loaderRegistered) {
+    return true;
+  }
+  if (typeof module.register !== 'function') {
+    return false;
+  }
+  module.register(`data:text/javascript,${encodeURIComponent(TYPESCRIPT_LOADER_SOURCE)}`, {
+    data: { typescript: pathToFileURL(require.resolve('typescript')).href }
+  });
+  loaderRegistered = true;
+  return true;
+}
+
+/**
+ * Imports a JavaScript or TypeScript ES module, a fresh instance on every call so that changed files are reloaded,
+ * along with the local modules it imports (not the packages of node_modules)
+ *
+ * ES modules cannot be unloaded: every call keeps a new instance of the module and its local imports
+ * in memory until the process exits.
+ * @throws Error for TypeScript modules on Node.js versions without module.register (before 20.6)
+ */
+export function importModule(filePath: string): Promise<Record<string, unknown>> {
+  if (!registerConfigLoader() && /\.m?ts$/.test(filePath)) {
+    throw new Error(`TypeScript ES module configs require Node.js 20.6 or later (running ${process.version})`);
+  }
+  return import(`${pathToFileURL(filePath).href}?version=${++importCount}`);
+}
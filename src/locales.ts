@@ -0,0 +1,149 @@
+import { AssetEntry } from './types';
+import { toStringLiteral } from './formats';
+
+/**
+ * Where the locale of an asset is written
+ * - 'suffix': before the extension, e.g. banner.fr.png
+ * - 'directory': as a directory, e.g. fr/banner.png or images/fr/banner.png
+ */
+export type LocaleConvention = 'suffix' | 'directory';
+
+export const LOCALE_CONVENTIONS: LocaleConvention[] = ['suffix', 'directory'];
+
+/**
+ * Top-level names declared by the locale helpers
+ */
+export const LOCALE_HELPER_NAMES = ['locales', 'Locale', 'defaultLocale', 'Localized', 'getLocalized'];
+
+/**
+ * Locale detection options
+ */
+export interface LocaleOptions {
+  /**
+   * Locales of the application, e.g. ['en', 'fr', 'de']
+   */
+  locales: string[];
+  /**
+   * Locale used when an asset has no variant for the requested one (default: the first locale)
+   */
+  defaultLocale?: string;
+  /**
+   * Conventions used to find the locale of a file (default: both)
+   */
+  conventions?: LocaleConvention[];
+}
+
+/**
+ * The locale of a file, and its path once the locale is removed
+ */
+export interface LocaleMatch {
+  locale: string;
+  /**
+   * Path relative to the public directory without the locale, shared by every variant
+   */
+  localizedPath: string;
+}
+
+/**
+ * Finds the configured locale matching a name, case-insensitively
+ */
+function findLocale(name: string, locales: string[]): string | undefined {
+  return locales.find(locale => locale.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Returns the default locale of the options
+ */
+export function getDefaultLocale(options: LocaleOptions): string {
+  return options.defaultLocale ?? options.locales[0];
+}
+
+/**
+ * Detects the locale of a file from its relative path
+ * @returns The locale and the path shared by the variants, or undefined if the file is not localized
+ */
+export function detectLocale(relativePath: string, options: LocaleOptions): LocaleMatch | undefined {
+  const conventions = options.conventions ?? LOCALE_CONVENTIONS;
+  const segments = relativePath.split('/');
+  const fileName = segments.pop()!;
+
+  if (conventions.includes('suffix')) {
+    // banner.fr.png -> banner.png, but not fr.png
+    const match = fileName.match(/^(.+)\.([^./]+)(\.[^./]+)$/);
+    const locale = match && findLocale(match[2], options.locales);
+    if (match && locale) {
+      return { locale, localizedPath: [...segments, match[1] + match[3]].join('/') };
+    }
+  }
+
+  if (conventions.includes('directory')) {
+    const index = segments.findIndex(segment => findLocale(segment, options.locales) !== undefined);
+    if (index !== -1) {
+      const locale = findLocale(segments[index], options.locales)!;
+      return { locale, localizedPath: [...segments.slice(0, index), ...segments.slice(index + 1), fileName].join('/') };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Merges the variants of a localized asset into one entry, whose own value is the one of the default
+ * locale (or of the first available locale)
+ * @returns The entry, and the locales without a variant
+ */
+export function mergeLocaleVariants(
+  localizedPath: string,
+  variants: Map<string, AssetEntry>,
+  options: LocaleOptions
+): { entry: AssetEntry; missing: string[] } {
+  const locales: Record<string, AssetEntry> = {};
+  options.locales.filter(locale => variants.has(locale)).forEach(locale => {
+    locales[locale] = variants.get(locale)!;
+  });
+
+  const fallback = variants.get(getDefaultLocale(options)) ?? locales[Object.keys(locales)[0]];
+  return {
+    entry: { ...fallback, relativePath: localizedPath, locales },
+    missing: options.locales.filter(locale => !variants.has(locale))
+  };
+}
+
+/**
+ * Generates the Locale type, the Localized map type and the getLocalized() helper
+ */
+export function generateLocaleHelpersCode(options: LocaleOptions): string {
+  const locales = options.locales.map(toStringLiteral);
+
+  return `/**
+ * Locales of the localized assets
+ */
+export const locales = [${locales.join(', ')}] as const;
+
+export type Locale = (typeof locales)[number];
+
+export const defaultLocale: Locale = ${toStringLiteral(getDefaultLocale(options))};
+
+/**
+ * Variants of a localized asset, keyed by locale
+ */
+export type Localized<T> = { readonly [L in Locale]?: T };
+
+/**
+ * Returns the variant of a localized asset for a locale, falling back to the default locale,
+ * then to the first available one
+ */
+export function getLocalized<T>(asset: Localized<T>, locale: Locale | (string & {})): T {
+  const variant = asset[locale as Locale] ?? asset[defaultLocale];
+  if (variant !== undefined) {
+    return variant;
+  }
+  for (const available of locales) {
+    if (asset[available] !== undefined) {
+      return asset[available] as T;
+    }
+  }
+  throw new Error('Localized asset has no variant');
+}
+`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Verbosity of the logger, each level including the ones before it
+ */
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
+
+/**
+ * Output format of the logger
+ * - 'text': human-readable messages
+ * - 'json': one JSON event per line, for machines
+ */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * Structured fields attached to a log event
+ */
+export type LogData = Record<string, unknown>;
+
+export interface Logger {
+  level: LogLevel;
+  error: (message: string, data?: LogData) => void;
+  warn: (message: string, data?: LogData) => void;
+  info: (message: string, data?: LogData) => void;
+  debug: (message: string, data?: LogData) => void;
+}
+
+export interface LoggerOptions {
+  /**
+   * Most verbose level printed (default: 'info')
+   */
+  level?: LogLevel;
+  /**
+   * Output format (default: 'text')
+   */
+  format?: LogFormat;
+  /**
+   * Writes a formatted line; errors and warnings go to stderr by default, other levels to stdout
+   */
+  write?: (line: string, level: Exclude<LogLevel, 'silent'>) => void;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
+
+export const LOG_FORMATS: LogFormat[] = ['text', 'json'];
+
+function writeToConsole(line: string, level: Exclude<LogLevel, 'silent'>): void {
+  if (level === 'error' || level === 'warn') {
+    process.stderr.write(line + '\n');
+  } else {
+    process.stdout.write(line + '\n');
+  }
+}
+
+/**
+ * Creates a logger printing the events up to a level, as text or JSON lines
+ */
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const level = options.level ?? 'info';
+  const format = options.format ?? 'text';
+  const write = options.write ?? writeToConsole;
+
+  const log = (eventLevel: Exclude<LogLevel, 'silent'>) => (message: string, data?: LogData) => {
+    if (LOG_LEVELS.indexOf(eventLevel) > LOG_LEVELS.indexOf(level)) {
+      return;
+    }
+
+    if (format === 'json') {
+      write(JSON.stringify({ time: new Date().toISOString(), level: eventLevel, message, ...data }), eventLevel);
+    } else {
+      write(message, eventLevel);
+    }
+  };
+
+  return {
+    level,
+    error: log('error'),
+    warn: log('warn'),
+    info: log('info'),
+    debug: log('debug')
+  };
+}
+
+/**
+ * Resolves the level selected by the --verbose and --quiet command line flags
+ */
+export function resolveLogLevel(options: { verbose?: boolean; quiet?: boolean }): LogLevel {
+  if (options.quiet) {
+    return 'error';
+  }
+  return options.verbose ? 'debug' : 'info';
+}
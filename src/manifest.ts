@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AssetGroup, Config } from './types';
+import { flattenAssetFiles } from './tree';
+import { getMimeType } from './mime';
+
+/**
+ * An asset file listed in the manifest
+ */
+export interface AssetManifestEntry {
+  /**
+   * Path relative to the public directory
+   */
+  relativePath: string;
+  /**
+   * Path value of the file, after transformPathValue, including for inlined files
+   */
+  value: string;
+  /**
+   * Dotted path of the variable in the generated tree, e.g. images.logo or images.hero.2x for variants
+   */
+  name: string;
+  /**
+   * Size of the file in bytes
+   */
+  size: number;
+  mimeType: string;
+  /**
+   * SHA-256 hash of the bytes of the file as served, in hex (unlike the content hash of the
+   * path values, line endings are not normalized)
+   */
+  hash: string;
+  /**
+   * Last modification time of the file, as an ISO 8601 string
+   */
+  mtime: string;
+}
+
+/**
+ * Machine-readable list of the assets included in a generation
+ */
+export interface AssetManifest {
+  assets: AssetManifestEntry[];
+}
+
+/**
+ * Returns the absolute path of the manifest: manifestFile, or <output file name>.manifest.json next to the output file
+ */
+export function getManifestFile(config: Pick<Config, 'outputFile' | 'manifestFile'>): string {
+  const outputFile = path.resolve(process.cwd(), config.outputFile);
+  return config.manifestFile
+    ? path.resolve(process.cwd(), config.manifestFile)
+    : path.join(path.dirname(outputFile), `${path.basename(outputFile, path.extname(outputFile))}.manifest.json`);
+}
+
+/**
+ * Lists every file of the tree with its metadata, in declaration order
+ */
+export function createAssetManifest(tree: AssetGroup): AssetManifest {
+  return {
+    assets: flattenAssetFiles(tree).map(({ path: names, entry }) => {
+      const stats = fs.statSync(entry.filePath);
+      return {
+        relativePath: entry.relativePath,
+        value: entry.value,
+        name: names.join('.'),
+        size: stats.size,
+        mimeType: getMimeType(entry.filePath),
+        hash: crypto.createHash('sha256').update(fs.readFileSync(entry.filePath)).digest('hex'),
+        mtime: stats.mtime.toISOString()
+      };
+    })
+  };
+}
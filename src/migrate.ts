@@ -0,0 +1,372 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { glob } from 'glob';
+import { Config } from './types';
+import { generate, GeneratedAsset } from './api';
+import { ASSETS_ENUM_NAME, ASSETS_OBJECT_NAME, getEnumMemberNames, toStringLiteral } from './formats';
+import { DEFAULT_SOURCE_GLOBS, SOURCE_IGNORE_PATTERNS } from './unused';
+
+export interface MigrateOptions {
+  /**
+   * Globs of the source files to migrate, relative to the project root
+   */
+  sources?: string[];
+  /**
+   * Whether to write the migrated files and the generated file (default: true)
+   */
+  write?: boolean;
+}
+
+/**
+ * A path literal found in a source file
+ */
+export interface PathLiteral {
+  line: number;
+  literal: string;
+}
+
+export interface ReplacedLiteral extends PathLiteral {
+  /**
+   * Expression referencing the generated export
+   */
+  expression: string;
+}
+
+export interface MigratedFile {
+  filePath: string;
+  replaced: ReplacedLiteral[];
+  /**
+   * Path literals that do not match any asset
+   */
+  broken: PathLiteral[];
+  /**
+   * Content of the file after the migration
+   */
+  code: string;
+  changed: boolean;
+}
+
+export interface MigrationReport {
+  files: MigratedFile[];
+  replaced: number;
+  broken: number;
+}
+
+/**
+ * Thrown when the output format does not export values that literals can be replaced with
+ */
+export class UnsupportedMigrationFormatError extends Error {
+  constructor(public readonly format: string) {
+    super(`The migrate command cannot replace literals with the '${format}' output format, enable emitPathHelpers or use another outputFormat`);
+    this.name = 'UnsupportedMigrationFormatError';
+  }
+}
+
+/**
+ * Literals looking like a public file path: /images/logo.png, /data.json?v=2
+ */
+const PUBLIC_PATH_PATTERN = /^\/(?!\/)[^\s'"`]*\.[a-z0-9]+(?:[?#]\S*)?$/i;
+
+/**
+ * How an asset is referenced from a source file: the top-level export to import,
+ * and the expression using it
+ */
+interface AssetReference {
+  exportName: string;
+  expression: (localName: string) => string;
+}
+
+/**
+ * A URL of an asset: the asset itself, or one of its locale, theme or responsive variants
+ */
+interface AssetUrl {
+  asset: GeneratedAsset;
+  /**
+   * Locale, theme or descriptor naming the variant in the enum format, empty for the asset itself
+   */
+  key: string;
+  /**
+   * Member access reaching the URL from the asset
+   */
+  access: string;
+  variant: Pick<GeneratedAsset, 'filePath' | 'relativePath' | 'value' | 'image'>;
+}
+
+/**
+ * Lists the URLs of an asset: one per variant of localized and themed assets and of responsive images, plus the default
+ * image of responsive images when it is not one of the variants
+ */
+function getAssetUrls(asset: GeneratedAsset): AssetUrl[] {
+  const keyedVariants = asset.locales ?? asset.themes;
+  if (keyedVariants) {
+    return Object.keys(keyedVariants).map(key => {
+      // Locale and theme variants are reached through their key, image objects through their URL
+      const keyAccess = /^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${toStringLiteral(key)}]`;
+      return { asset, key, access: keyAccess + (keyedVariants[key].image ? '.src' : ''), variant: keyedVariants[key] };
+    });
+  }
+  if (asset.variants) {
+    const urls = asset.variants.map<AssetUrl>((variant, index) => ({
+      asset,
+      key: variant.descriptor,
+      access: variant.filePath === asset.filePath ? '.src' : `.variants[${index}].src`,
+      variant
+    }));
+    return asset.variants.some(variant => variant.filePath === asset.filePath)
+      ? urls
+      : [{ asset, key: '', access: '.src', variant: asset }, ...urls];
+  }
+  return [{ asset, key: '', access: asset.image ? '.src' : '', variant: asset }];
+}
+
+/**
+ * Builds the reference of every asset, keyed by the path literals that designate it
+ */
+function createAssetReferences(assets: GeneratedAsset[], config: Config): Map<string, AssetReference> {
+  const format = config.outputFormat ?? 'namespace';
+  const references = new Map<string, AssetReference>();
+
+  const urls = assets.flatMap(getAssetUrls);
+  const enumNames = getEnumMemberNames(urls.map(({ asset, key }) => asset.name.split('.').concat(key || [])));
+
+  urls.forEach(({ asset, access, variant }, index) => {
+    const [topName, ...members] = asset.name.split('.');
+
+    let reference: AssetReference;
+    if (format === 'namespace') {
+      reference = { exportName: topName, expression: local => [local, ...members].join('.') + access };
+    } else if (format === 'object') {
+      reference = {
+        exportName: ASSETS_OBJECT_NAME,
+        expression: local => [local, topName, ...members].join('.') + access
+      };
+    } else if (format === 'record') {
+      const key = toStringLiteral('/' + asset.relativePath);
+      reference = { exportName: ASSETS_OBJECT_NAME, expression: local => `${local}[${key}]${access}` };
+    } else if (format === 'enum') {
+      reference = { exportName: ASSETS_ENUM_NAME, expression: local => `${local}.${enumNames[index]}` };
+    } else if (config.emitPathHelpers) {
+      reference = { exportName: 'asset', expression: local => `${local}(${toStringLiteral(variant.value)})` };
+    } else {
+      throw new UnsupportedMigrationFormatError(format);
+    }
+
+    references.set(variant.value, reference);
+    if (!references.has('/' + variant.relativePath)) {
+      references.set('/' + variant.relativePath, reference);
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Returns the module specifier importing the generated file from a source file
+ */
+function getImportSpecifier(sourceFile: string, outputFile: string): string {
+  const specifier = path.relative(path.dirname(sourceFile), outputFile.replace(/\.(?:ts|tsx)$/, ''))
+    .replace(/\\/g, '/');
+  return specifier.startsWith('.') ? specifier : './' + specifier;
+}
+
+/**
+ * Checks whether a string literal is a value that can be replaced by an expression: module
+ * specifiers and names, types, property names, enum members and tagged templates must stay literals
+ */
+function isReplaceableLiteral(node: ts.StringLiteralLike): boolean {
+  const parent = node.parent;
+  return !(
+    ts.isImportDeclaration(parent)
+    || ts.isExportDeclaration(parent)
+    || ts.isExternalModuleReference(parent)
+    || ts.isImportSpecifier(parent)
+    || ts.isExportSpecifier(parent)
+    || ts.isImportAttribute(parent)
+    || ts.isModuleDeclaration(parent)
+    || ts.isLiteralTypeNode(parent)
+    || ts.isTaggedTemplateExpression(parent)
+    || ts.isEnumMember(parent)
+    || ((ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent) || ts.isPropertySignature(parent)
+      || ts.isMethodDeclaration(parent) || ts.isMethodSignature(parent)) && parent.name === node)
+    || (ts.isBindingElement(parent) && parent.propertyName === node)
+    || (ts.isCallExpression(parent) && parent.expression.kind === ts.SyntaxKind.ImportKeyword)
+    || (ts.isCallExpression(parent) && ts.isIdentifier(parent.expression) && parent.expression.text === 'require')
+  );
+}
+
+/**
+ * Finds the statement after which imports are added: the last import, or the last directive such as 'use client'
+ */
+function findImportAnchor(source: ts.SourceFile): ts.Statement | undefined {
+  const lastImport = [...source.statements].reverse().find(ts.isImportDeclaration);
+  if (lastImport) {
+    return lastImport;
+  }
+
+  let lastDirective: ts.Statement | undefined;
+  for (const statement of source.statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) {
+      break;
+    }
+    lastDirective = statement;
+  }
+  return lastDirective;
+}
+
+/**
+ * Checks whether a source file is a CommonJS module, which cannot import the generated file:
+ * .cjs and .cts files, and files calling require or assigning exports without any import or export
+ */
+function isCommonJsModule(source: ts.SourceFile): boolean {
+  if (/\.c[jt]s$/.test(source.fileName)) {
+    return true;
+  }
+  if (ts.isExternalModule(source)) {
+    return false;
+  }
+
+  const usesCommonJs = (node: ts.Node): boolean =>
+    (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === 'require')
+    || (ts.isPropertyAccessExpression(node) && ts.isIdentifier(node.expression)
+      && (node.expression.text === 'exports' || (node.expression.text === 'module' && node.name.text === 'exports')))
+    || ts.forEachChild(node, usesCommonJs) === true;
+  return usesCommonJs(source);
+}
+
+/**
+ * Migrates the content of one source file, CommonJS modules being left as they are
+ */
+function migrateSource(
+  code: string,
+  sourceFile: string,
+  outputFile: string,
+  references: Map<string, AssetReference>
+): MigratedFile {
+  const scriptKind = /\.[jt]sx$/.test(sourceFile) ? ts.ScriptKind.TSX : ts.ScriptKind.TS;
+  const source = ts.createSourceFile(sourceFile, code, ts.ScriptTarget.Latest, true, scriptKind);
+  if (isCommonJsModule(source)) {
+    return { filePath: sourceFile, replaced: [], broken: [], code, changed: false };
+  }
+  const specifier = getImportSpecifier(sourceFile, outputFile);
+
+  // Names imported from the generated file, and every other identifier of the file
+  const existingImport = source.statements.find((statement): statement is ts.ImportDeclaration =>
+    ts.isImportDeclaration(statement)
+    && ts.isStringLiteral(statement.moduleSpecifier)
+    && path.resolve(path.dirname(sourceFile), statement.moduleSpecifier.text) === path.resolve(path.dirname(sourceFile), specifier)
+  );
+  const importedNames = new Map<string, string>();
+  const namedBindings = existingImport?.importClause?.namedBindings;
+  if (namedBindings && ts.isNamedImports(namedBindings)) {
+    namedBindings.elements.forEach(element => {
+      importedNames.set((element.propertyName ?? element.name).text, element.name.text);
+    });
+  }
+  const identifiers = new Set<string>();
+  const collectIdentifiers = (node: ts.Node): void => {
+    if (ts.isIdentifier(node)) {
+      identifiers.add(node.text);
+    }
+    ts.forEachChild(node, collectIdentifiers);
+  };
+  collectIdentifiers(source);
+
+  // Local name of each export to import, aliased when the name is already taken
+  const newImports = new Map<string, string>();
+  const getLocalName = (exportName: string): string => {
+    const localName = importedNames.get(exportName) ?? newImports.get(exportName);
+    if (localName) {
+      return localName;
+    }
+    let alias = exportName;
+    for (let counter = 1; identifiers.has(alias); counter++) {
+      alias = `${exportName}Asset${counter > 1 ? counter : ''}`;
+    }
+    identifiers.add(alias);
+    newImports.set(exportName, alias);
+    return alias;
+  };
+
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const replaced: ReplacedLiteral[] = [];
+  const broken: PathLiteral[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if ((ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) && isReplaceableLiteral(node)) {
+      const line = source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+      const reference = references.get(node.text);
+
+      if (reference) {
+        const expression = reference.expression(getLocalName(reference.exportName));
+        const text = ts.isJsxAttribute(node.parent) ? `{${expression}}` : expression;
+        edits.push({ start: node.getStart(source), end: node.getEnd(), text });
+        replaced.push({ line, literal: node.text, expression });
+      } else if (PUBLIC_PATH_PATTERN.test(node.text)) {
+        broken.push({ line, literal: node.text });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  if (newImports.size > 0) {
+    const bindings = Array.from(newImports, ([exportName, local]) => exportName === local ? local : `${exportName} as ${local}`);
+
+    if (existingImport && namedBindings && ts.isNamedImports(namedBindings)) {
+      // Extend the existing import of the generated file
+      const elements = namedBindings.elements.map(element => element.getText(source)).concat(bindings);
+      edits.push({ start: namedBindings.getStart(source), end: namedBindings.getEnd(), text: `{ ${elements.join(', ')} }` });
+    } else {
+      const anchor = findImportAnchor(source);
+      const statement = `import { ${bindings.join(', ')} } from ${toStringLiteral(specifier)};`;
+      if (anchor) {
+        edits.push({ start: anchor.getEnd(), end: anchor.getEnd(), text: '\n' + statement });
+      } else {
+        edits.push({ start: 0, end: 0, text: statement + '\n' + (code.length > 0 && !code.startsWith('\n') ? '\n' : '') });
+      }
+    }
+  }
+
+  const migrated = edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), code);
+
+  return { filePath: sourceFile, replaced, broken, code: migrated, changed: migrated !== code };
+}
+
+/**
+ * Replaces the path literals of the source files matching an asset with references to the generated
+ * exports, adding the imports, and reports the path literals that match no asset
+ * @throws UnsupportedMigrationFormatError if the output format exports no runtime values
+ */
+export async function migrateSources(config: Config, options: MigrateOptions = {}): Promise<MigrationReport> {
+  // The migrated files import the generated file, make sure it is up to date
+  const result = await generate(config, { write: options.write !== false });
+  const references = createAssetReferences(result.assets, config);
+
+  const sources = await glob(options.sources ?? DEFAULT_SOURCE_GLOBS, {
+    cwd: process.cwd(),
+    absolute: true,
+    nodir: true,
+    ignore: [...SOURCE_IGNORE_PATTERNS, '**/*.d.ts', 'asset-link.config.*']
+  });
+
+  // Generated files and the served scripts of the public directory must not import the generated file
+  const generatedFiles = new Set([result.outputFile, ...result.emittedFiles.map(file => file.filePath)]);
+  const files = sources
+    .filter(file => !generatedFiles.has(file) && path.relative(result.publicDir, file).startsWith('..'))
+    .sort()
+    .map(file => migrateSource(fs.readFileSync(file, 'utf8'), file, result.outputFile, references))
+    .filter(file => file.replaced.length > 0 || file.broken.length > 0);
+
+  if (options.write !== false) {
+    files.filter(file => file.changed).forEach(file => fs.writeFileSync(file.filePath, file.code));
+  }
+
+  return {
+    files,
+    replaced: files.reduce((total, file) => total + file.replaced.length, 0),
+    broken: files.reduce((total, file) => total + file.broken.length, 0)
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * How variable names that are duplicated or not usable as identifiers are resolved
+ * - 'error': reject them and fail the generation
+ * - 'suffix-extension': append the file extension (logo.svg -> logoSvg)
+ * - 'suffix-counter': append a counter (logo -> logo2)
+ * - 'qualify-parent': prepend the parent directory name (images/logo.svg -> imagesLogo)
+ */
+export type CollisionStrategy = 'error' | 'suffix-extension' | 'suffix-counter' | 'qualify-parent';
+
+export const COLLISION_STRATEGIES: CollisionStrategy[] = ['error', 'suffix-extension', 'suffix-counter', 'qualify-parent'];
+
+/**
+ * How file names are converted to variable names by JSON configurations
+ */
+export type NamingStrategy = 'camelCase' | 'PascalCase' | 'snake_case';
+
+export const NAMING_STRATEGIES: NamingStrategy[] = ['camelCase', 'PascalCase', 'snake_case'];
+
+/**
+ * Why a variable name had to be changed or was rejected
+ */
+export type NameIssueReason = 'duplicate' | 'invalid-identifier' | 'reserved-word';
+
+/**
+ * A variable name that was renamed or rejected during generation
+ */
+export interface NameIssue {
+  relativePath: string;
+  originalName: string;
+  /**
+   * The name actually used, or undefined if the entry was rejected
+   */
+  resolvedName?: string;
+  reasons: NameIssueReason[];
+}
+
+/**
+ * Options used to resolve a single variable name
+ */
+export interface ResolveNameOptions {
+  strategy: CollisionStrategy;
+  /**
+   * Checks whether a name is already used in the same scope
+   */
+  isTaken: (name: string) => boolean;
+  /**
+   * Joins a name with a suffix according to the naming convention
+   */
+  join: (base: string, suffix: string) => string;
+  /**
+   * File extension without the dot, if the name belongs to a file
+   */
+  extension?: string;
+  /**
+   * Variable name of the parent directory, if any
+   */
+  parentName?: string;
+}
+
+/**
+ * Thrown when the 'error' collision strategy rejects one or more names
+ */
+export class NameCollisionError extends Error {
+  constructor(public readonly issues: NameIssue[]) {
+    super(`Cannot generate asset variables, ${issues.length} name(s) rejected:\n${formatNameIssues(issues)}`);
+    this.name = 'NameCollisionError';
+  }
+}
+
+/**
+ * Words that cannot be used as variable or namespace names
+ */
+export const RESERVED_WORDS = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger',
+  'default', 'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally',
+  'for', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let',
+  'new', 'null', 'package', 'private', 'protected', 'public', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield'
+]);
+
+/**
+ * Checks whether a name is a syntactically valid identifier
+ */
+export function isValidIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name);
+}
+
+/**
+ * Turns a name into a valid identifier by replacing invalid characters
+ * and prefixing names that start with a digit
+ */
+export function sanitizeIdentifier(name: string): string {
+  const sanitized = name.replace(/[^A-Za-z0-9_$]/g, '_');
+  return !sanitized || /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+/**
+ * Resolves a variable name against the names already used in its scope
+ * @returns The resolved name and the issue to report, if the name was changed or rejected
+ */
+export function resolveVariableName(
+  name: string,
+  relativePath: string,
+  options: ResolveNameOptions
+): { name?: string; issue?: NameIssue } {
+  const reasons: NameIssueReason[] = [];
+  let resolved = name;
+
+  if (!isValidIdentifier(resolved)) {
+    reasons.push('invalid-identifier');
+    resolved = sanitizeIdentifier(resolved);
+  }
+  if (RESERVED_WORDS.has(resolved)) {
+    reasons.push('reserved-word');
+  }
+  if (options.isTaken(resolved)) {
+    reasons.push('duplicate');
+  }
+
+  if (reasons.length === 0) {
+    return { name };
+  }
+
+  if (options.strategy === 'error') {
+    return { issue: { relativePath, originalName: name, reasons } };
+  }
+
+  if (!isUsable(resolved, options)) {
+    resolved = applyStrategy(resolved, options);
+  }
+
+  return { name: resolved, issue: { relativePath, originalName: name, resolvedName: resolved, reasons } };
+}
+
+/**
+ * Formats name issues as a human readable report, one line per entry
+ */
+export function formatNameIssues(issues: NameIssue[]): string {
+  return issues
+    .map(issue => {
+      const outcome = issue.resolvedName !== undefined
+        ? `${issue.originalName} -> ${issue.resolvedName}`
+        : `${issue.originalName} rejected`;
+      return `  ${issue.relativePath}: ${outcome} (${issue.reasons.join(', ')})`;
+    })
+    .join('\n');
+}
+
+function isUsable(name: string, options: ResolveNameOptions): boolean {
+  return isValidIdentifier(name) && !RESERVED_WORDS.has(name) && !options.isTaken(name);
+}
+
+/**
+ * Applies the collision strategy, falling back to a counter when it does not produce a usable name
+ */
+function applyStrategy(name: string, options: ResolveNameOptions): string {
+  let candidate: string | undefined;
+
+  if (options.strategy === 'suffix-extension' && options.extension) {
+    candidate = options.join(name, sanitizeIdentifier(options.extension).replace(/^_/, ''));
+  } else if (options.strategy === 'qualify-parent' && options.parentName) {
+    candidate = options.join(options.parentName, name);
+  }
+
+  if (candidate && isUsable(candidate, options)) {
+    return candidate;
+  }
+
+  const base = candidate ?? name;
+  for (let counter = 2; ; counter++) {
+    const numbered = options.join(base, String(counter));
+    if (isUsable(numbered, options)) {
+      return numbered;
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { minimatch } from 'minimatch';
+
+/**
+ * Checks whether a path relative to the public directory matches any of the exclude patterns
+ * Patterns without a slash match file names at any depth (e.g. '*.map')
+ */
+export function matchesExcludePatterns(relativePath: string, patterns: string[]): boolean {
+  return patterns.some(pattern => minimatch(relativePath, pattern, { dot: true, matchBase: true }));
+}
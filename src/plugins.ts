@@ -0,0 +1,167 @@
+import path from 'path';
+import { AssetEntry, AssetGroup, Config } from './types';
+
+/**
+ * Context shared by every plugin during one generation
+ */
+export interface PluginContext {
+  config: Config;
+  /**
+   * Free-form state shared between plugins and hooks
+   */
+  state: Record<string, unknown>;
+  /**
+   * Additional files emitted by plugins, keyed by absolute path
+   */
+  emittedFiles: Map<string, string>;
+  /**
+   * Emits an additional file, written along with the output file
+   * @param filePath Path of the file, relative to the project root
+   * @param content Content of the file
+   */
+  emitFile: (filePath: string, content: string) => void;
+  /**
+   * Reports a warning in the generation result
+   */
+  warn: (message: string) => void;
+  warnings: string[];
+}
+
+/**
+ * An asset entry as seen by the transformEntry hook, with its proposed variable name
+ */
+export interface PluginEntry extends AssetEntry {
+  name: string;
+}
+
+/**
+ * A plugin hooking into the generation lifecycle
+ *
+ * Hooks run in the order plugins are listed, each one receiving the output of the previous one.
+ * Returning nothing keeps the (possibly mutated) input.
+ */
+export interface AssetLinkPlugin {
+  /**
+   * Name used to attribute errors to the plugin
+   */
+  name: string;
+  /**
+   * Adds or removes files after the public directory is scanned
+   */
+  scan?: (files: string[], context: PluginContext) => string[] | void | Promise<string[] | void>;
+  /**
+   * Transforms an entry before its name is checked for collisions
+   */
+  transformEntry?: (entry: PluginEntry, context: PluginContext) => PluginEntry | void;
+  /**
+   * Transforms the tree of assets once grouped by directory
+   */
+  transformTree?: (tree: AssetGroup, context: PluginContext) => AssetGroup | void;
+  /**
+   * Post-processes the generated code, or emits additional files through the context
+   */
+  emit?: (code: string, context: PluginContext) => string | void | Promise<string | void>;
+}
+
+type PluginHook = 'scan' | 'transformEntry' | 'transformTree' | 'emit';
+
+/**
+ * Thrown when a plugin hook fails, attributing the error to the plugin
+ */
+export class PluginError extends Error {
+  constructor(
+    public readonly pluginName: string,
+    public readonly hook: PluginHook,
+    public readonly cause: unknown
+  ) {
+    super(`Plugin "${pluginName}" failed in ${hook}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PluginError';
+  }
+}
+
+/**
+ * Creates the context shared by the plugins of a configuration
+ */
+export function createPluginContext(config: Config): PluginContext {
+  const context: PluginContext = {
+    config,
+    state: {},
+    emittedFiles: new Map(),
+    emitFile: (filePath, content) => {
+      context.emittedFiles.set(path.resolve(process.cwd(), filePath), content);
+    },
+    warn: message => {
+      context.warnings.push(message);
+    },
+    warnings: []
+  };
+  return context;
+}
+
+/**
+ * Runs a synchronous hook of every plugin, passing each result to the next plugin
+ */
+function runHook<T>(hook: 'transformEntry' | 'transformTree', value: T, context: PluginContext): T {
+  return (context.config.plugins ?? []).reduce((current, plugin) => {
+    const fn = plugin[hook] as ((input: T, context: PluginContext) => T | void) | undefined;
+    if (!fn) {
+      return current;
+    }
+
+    try {
+      return fn(current, context) ?? current;
+    } catch (error) {
+      throw new PluginError(plugin.name, hook, error);
+    }
+  }, value);
+}
+
+/**
+ * Runs a hook that may be asynchronous on every plugin, in order
+ */
+async function runAsyncHook<T>(hook: 'scan' | 'emit', value: T, context: PluginContext): Promise<T> {
+  let current = value;
+
+  for (const plugin of context.config.plugins ?? []) {
+    const fn = plugin[hook] as ((input: T, context: PluginContext) => T | void | Promise<T | void>) | undefined;
+    if (!fn) {
+      continue;
+    }
+
+    try {
+      current = (await fn(current, context)) ?? current;
+    } catch (error) {
+      throw new PluginError(plugin.name, hook, error);
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Lets plugins add or remove scanned files
+ */
+export function runScanHooks(files: string[], context: PluginContext): Promise<string[]> {
+  return runAsyncHook('scan', files, context);
+}
+
+/**
+ * Lets plugins transform an entry and its proposed variable name
+ */
+export function runTransformEntryHooks(entry: PluginEntry, context: PluginContext): PluginEntry {
+  return runHook('transformEntry', entry, context);
+}
+
+/**
+ * Lets plugins transform the grouped tree
+ */
+export function runTransformTreeHooks(tree: AssetGroup, context: PluginContext): AssetGroup {
+  return runHook('transformTree', tree, context);
+}
+
+/**
+ * Lets plugins post-process the generated code
+ */
+export function runEmitHooks(code: string, context: PluginContext): Promise<string> {
+  return runAsyncHook('emit', code, context);
+}
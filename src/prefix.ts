@@ -0,0 +1,36 @@
+import { BaseConfig } from './types';
+
+/**
+ * Environment variable selecting one of the environments of a configuration, also set by --env
+ */
+export const ENVIRONMENT_ENV_VAR = 'ASSET_LINK_ENV';
+
+/**
+ * Environment variable names that bundlers can inline, e.g. NEXT_PUBLIC_ASSET_PREFIX
+ */
+export const ENV_VAR_NAME_PATTERN = '^[A-Za-z_][A-Za-z0-9_]*$';
+
+/**
+ * Checks whether a path value is relative to the site root, and can be prefixed
+ * (absolute URLs such as https://... or //host/... are left alone)
+ */
+export function isRootRelativePath(value: string): boolean {
+  return value.startsWith('/') && !value.startsWith('//');
+}
+
+/**
+ * Combines the assetPrefix and the basePath of a configuration into the prefix of every path value,
+ * e.g. 'https://cdn.example.com/abc' + '/docs' -> 'https://cdn.example.com/abc/docs'
+ */
+export function getPathPrefix(config: Pick<BaseConfig, 'assetPrefix' | 'basePath'>): string {
+  const assetPrefix = (config.assetPrefix ?? '').replace(/\/+$/, '');
+  const basePath = (config.basePath ?? '').replace(/^\/*/, '/').replace(/\/+$/, '');
+  return assetPrefix + basePath;
+}
+
+/**
+ * Prepends a prefix to a root-relative path value
+ */
+export function applyPathPrefix(value: string, prefix: string): string {
+  return prefix && isRootRelativePath(value) ? prefix + value : value;
+}
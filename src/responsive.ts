@@ -0,0 +1,115 @@
+import { AssetEntry, ResponsiveVariant } from './types';
+import { getAssetUrl } from './tree';
+
+/**
+ * Density suffix of a file name without extension, capturing the density, e.g. hero@2x
+ */
+export const DEFAULT_DENSITY_PATTERN = '@(\\d+(?:\\.\\d+)?)x$';
+
+/**
+ * Width suffix of a file name without extension, capturing the width in pixels, e.g. card-640w
+ */
+export const DEFAULT_WIDTH_PATTERN = '-(\\d+)w$';
+
+/**
+ * Responsive image detection options
+ */
+export interface ResponsiveOptions {
+  /**
+   * Regular expression matching the density suffix of a file name without extension,
+   * whose first group captures the density (default: '@(\\d+(?:\\.\\d+)?)x$')
+   */
+  densityPattern?: string;
+  /**
+   * Regular expression matching the width suffix of a file name without extension,
+   * whose first group captures the width (default: '-(\\d+)w$')
+   */
+  widthPattern?: string;
+}
+
+/**
+ * Kind of srcset descriptor of a variant: pixel density (2x) or width (640w)
+ */
+export type ResponsiveDescriptorKind = 'density' | 'width';
+
+/**
+ * The descriptor of a responsive image variant, and its path once the suffix is removed
+ */
+export interface ResponsiveMatch {
+  kind: ResponsiveDescriptorKind;
+  /**
+   * srcset descriptor, e.g. '2x' or '640w'
+   */
+  descriptor: string;
+  /**
+   * Captured density or width
+   */
+  size: number;
+  /**
+   * Path relative to the public directory without the suffix, shared by every variant
+   */
+  basePath: string;
+}
+
+/**
+ * Detects the density or width suffix of a file from its relative path
+ * @returns The descriptor and the path shared by the variants, or undefined if the file has no suffix
+ */
+export function detectResponsiveVariant(relativePath: string, options: ResponsiveOptions): ResponsiveMatch | undefined {
+  const segments = relativePath.split('/');
+  const fileName = segments.pop()!;
+  const extensionIndex = fileName.lastIndexOf('.');
+  const stem = extensionIndex > 0 ? fileName.slice(0, extensionIndex) : fileName;
+  const extension = fileName.slice(stem.length);
+
+  const patterns: Array<[ResponsiveDescriptorKind, string, string]> = [
+    ['density', options.densityPattern ?? DEFAULT_DENSITY_PATTERN, 'x'],
+    ['width', options.widthPattern ?? DEFAULT_WIDTH_PATTERN, 'w']
+  ];
+
+  for (const [kind, pattern, unit] of patterns) {
+    const match = new RegExp(pattern).exec(stem);
+    const size = match ? Number(match[1]) : NaN;
+    const baseStem = match ? stem.slice(0, match.index) + stem.slice(match.index + match[0].length) : '';
+    // @2x.png has no base name to group under
+    if (match && size > 0 && baseStem) {
+      return { kind, descriptor: `${size}${unit}`, size, basePath: [...segments, baseStem + extension].join('/') };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Merges the variants of a responsive image into one entry, whose own value is the one of the file
+ * without suffix (or of the smallest variant)
+ *
+ * The file without suffix is listed as the 1x variant of density sets, and as a width variant when
+ * its image data gives its width.
+ */
+export function mergeResponsiveVariants(
+  basePath: string,
+  base: AssetEntry | undefined,
+  variants: Array<{ match: ResponsiveMatch; entry: AssetEntry }>
+): AssetEntry {
+  const sorted = [...variants].sort((a, b) => a.match.size - b.match.size);
+  const listed: ResponsiveVariant[] = sorted.map(({ match, entry }) => ({ ...entry, descriptor: match.descriptor }));
+
+  if (base) {
+    const kind = sorted[0].match.kind;
+    const descriptor = kind === 'density' ? '1x' : base.image && `${base.image.width}w`;
+    if (descriptor && !listed.some(variant => variant.descriptor === descriptor)) {
+      listed.push({ ...base, descriptor });
+      listed.sort((a, b) => parseFloat(a.descriptor) - parseFloat(b.descriptor));
+    }
+  }
+
+  return { ...(base ?? sorted[0].entry), relativePath: basePath, variants: listed };
+}
+
+/**
+ * Formats the srcset attribute of responsive image variants, e.g. '/hero.png 1x, /hero@2x.png 2x'
+ */
+export function getSrcSet(variants: Array<Pick<ResponsiveVariant, 'value' | 'dataUri' | 'descriptor'>>): string {
+  return variants.map(variant => `${getAssetUrl(variant)} ${variant.descriptor}`).join(', ');
+}
@@ -0,0 +1,801 @@
+import { COLLISION_STRATEGIES, NAMING_STRATEGIES } from './naming';
+import { OUTPUT_FORMATS } from './formats';
+import { CONTENT_HASH_STRATEGIES } from './hash';
+import { ENV_VAR_NAME_PATTERN } from './prefix';
+import { LOCALE_CONVENTIONS } from './locales';
+import { DEFAULT_THEMES } from './themes';
+import { SVG_MODES } from './svg';
+import { DEFAULT_DENSITY_PATTERN, DEFAULT_WIDTH_PATTERN } from './responsive';
+import { ASSET_KIND_PATTERN, GROUP_BY_OPTIONS } from './kinds';
+import { FONT_DISPLAYS, FONT_OUTPUTS, FONT_STYLES } from './fonts';
+
+/**
+ * Name of the JSON Schema file published with the package
+ */
+export const CONFIG_SCHEMA_FILE_NAME = 'asset-link.schema.json';
+
+/**
+ * $schema reference written by `init` into JSON configurations
+ */
+export const CONFIG_SCHEMA_REFERENCE = `./node_modules/asset-link/${CONFIG_SCHEMA_FILE_NAME}`;
+
+/**
+ * Type of a configuration option
+ * - 'function' options can only be set from TypeScript or JavaScript configurations
+ */
+type OptionType =
+  | { kind: 'string'; pattern?: string }
+  | { kind: 'boolean' }
+  | { kind: 'integer'; minimum: number; maximum?: number }
+  | { kind: 'string-array' }
+  | { kind: 'enum'; values: readonly string[] }
+  | { kind: 'function' }
+  | { kind: 'plugins' }
+  | { kind: 'locales' }
+  | { kind: 'themes' }
+  | { kind: 'responsive' }
+  | { kind: 'svg' }
+  | { kind: 'asset-kinds' }
+  | { kind: 'fonts' }
+  | { kind: 'font-overrides' };
+
+interface ConfigOption {
+  type: OptionType;
+  description: string;
+}
+
+/**
+ * Every option accepted by a configuration or one of its entries
+ */
+const CONFIG_OPTIONS: Record<string, ConfigOption> = {
+  name: { type: { kind: 'string' }, description: 'Name of the entry, used in summaries and to select entries from the command line' },
+  publicDir: { type: { kind: 'string' }, description: 'Directory containing public assets to scan (relative to project root)' },
+  outputFile: { type: { kind: 'string' }, description: 'Output TypeScript file path where asset variables will be generated' },
+  excludePatterns: { type: { kind: 'string-array' }, description: 'Patterns to exclude from asset scanning (glob patterns)' },
+  groupByDirectory: { type: { kind: 'boolean' }, description: 'Whether to group assets by subdirectory' },
+  groupBy: {
+    type: { kind: 'enum', values: GROUP_BY_OPTIONS },
+    description: "How assets are nested, taking precedence over groupByDirectory ('kind-directory': kind, then directory)"
+  },
+  assetKinds: {
+    type: { kind: 'asset-kinds' },
+    description: 'Kinds of additional file extensions used by groupBy, e.g. { "glb": "model" }, overriding the built-in ones'
+  },
+  outputFormat: { type: { kind: 'enum', values: OUTPUT_FORMATS }, description: 'Shape of the generated module' },
+  emitPathHelpers: {
+    type: { kind: 'boolean' },
+    description: 'Whether to emit the AssetPath union, the assetPaths list, and the isAssetPath() and asset() helpers'
+  },
+  plugins: { type: { kind: 'plugins' }, description: 'Plugins hooking into the generation, run in order' },
+  collisionStrategy: {
+    type: { kind: 'enum', values: COLLISION_STRATEGIES },
+    description: 'How duplicated, invalid or reserved variable names are resolved'
+  },
+  emitImageData: {
+    type: { kind: 'boolean' },
+    description: 'Whether to emit images as next/image compatible objects (src, width, height) instead of plain path strings'
+  },
+  emitJsonTypes: {
+    type: { kind: 'boolean' },
+    description: 'Whether to infer a type from each JSON file and emit the JsonAssets map and the typed fetchAsset() helper'
+  },
+  blurPlaceholder: { type: { kind: 'boolean' }, description: 'Whether to add a blurDataURL to emitted image objects' },
+  contentHash: { type: { kind: 'boolean' }, description: 'Whether to compute a content hash for each asset to bust browser caches' },
+  contentHashStrategy: {
+    type: { kind: 'enum', values: CONTENT_HASH_STRATEGIES },
+    description: 'How the content hash is added to the path value'
+  },
+  contentHashLength: {
+    type: { kind: 'integer', minimum: 1, maximum: 64 },
+    description: 'Number of hex characters kept from the content hash'
+  },
+  namingStrategy: { type: { kind: 'enum', values: NAMING_STRATEGIES }, description: 'Variable naming strategy' },
+  includeExtensionsInNames: { type: { kind: 'boolean' }, description: 'Whether to add file extensions to variable names' },
+  variablePrefix: { type: { kind: 'string' }, description: 'Optional prefix to add to all variable names' },
+  basePath: { type: { kind: 'string' }, description: 'Base path of the application (Next.js basePath), prepended to every path value' },
+  assetPrefix: { type: { kind: 'string' }, description: 'URL prefix of the assets, such as a CDN origin, prepended before the basePath' },
+  runtimePrefixEnv: {
+    type: { kind: 'string', pattern: ENV_VAR_NAME_PATTERN },
+    description: 'Environment variable the generated file reads the prefix from when it is imported, instead of baking it in'
+  },
+  locales: {
+    type: { kind: 'locales' },
+    description: 'Groups the locale variants of an asset (banner.fr.png, fr/banner.png) into one map keyed by locale'
+  },
+  themes: {
+    type: { kind: 'themes' },
+    description: 'Groups the theme variants of an asset (logo.light.svg, logo.dark.svg) into one map keyed by theme'
+  },
+  responsiveImages: {
+    type: { kind: 'responsive' },
+    description: 'Groups the density (hero@2x.png) and width (card-640w.jpg) variants of an image into one export with src, srcSet and variants'
+  },
+  fonts: {
+    type: { kind: 'fonts' },
+    description: 'Generates a @font-face stylesheet and/or a next/font/local module from the font files'
+  },
+  svg: {
+    type: { kind: 'svg' },
+    description: 'Emits the optimized markup or a React component next to the path constant of SVG files'
+  },
+  inlineThreshold: {
+    type: { kind: 'integer', minimum: 1 },
+    description: 'Files smaller than this size in bytes are exported as data URIs instead of paths'
+  },
+  inlineInclude: { type: { kind: 'string-array' }, description: 'Patterns of the files that can be inlined (default: every file)' },
+  inlineExclude: { type: { kind: 'string-array' }, description: 'Patterns of the files that are never inlined' },
+  emitManifest: {
+    type: { kind: 'boolean' },
+    description: 'Whether to write a JSON manifest with the size, MIME type, hash and modification time of every included asset'
+  },
+  manifestFile: {
+    type: { kind: 'string' },
+    description: 'Path of the manifest, relative to the project root (default: next to the output file)'
+  },
+  pathToVariableName: { type: { kind: 'function' }, description: 'Converts file paths to variable names' },
+  transformPathValue: { type: { kind: 'function' }, description: 'Modifies the path value assigned to the variable' },
+  shouldIncludeFile: { type: { kind: 'function' }, description: 'Determines if a file should be included' },
+  getBlurDataURL: { type: { kind: 'function' }, description: 'Computes the blurDataURL of an image' }
+};
+
+const PLUGIN_HOOKS = ['scan', 'transformEntry', 'transformTree', 'emit'];
+
+const ENVIRONMENTS_DESCRIPTION = 'Options overridden per environment, selected with --env or the ASSET_LINK_ENV variable';
+
+/**
+ * Where a set of options is written: the top level, an entry, or an environment of either
+ */
+type OptionsScope = 'config' | 'entry' | 'environment';
+
+/**
+ * A problem found in a configuration
+ */
+export interface ConfigIssue {
+  /**
+   * Key path of the invalid value, e.g. entries[1].namingStrategy
+   */
+  path: string;
+  message: string;
+}
+
+/**
+ * Formats a value for an error message
+ */
+function describeValue(value: unknown): string {
+  if (typeof value === 'function') {
+    return 'a function';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  if (value === null) {
+    return 'null';
+  }
+  return typeof value === 'object' ? 'an object' : JSON.stringify(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Number of single-character edits turning one string into the other
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds the known key closest to a misspelled one
+ */
+function suggestKey(key: string, knownKeys: string[]): string | undefined {
+  const [closest] = knownKeys
+    .map(knownKey => ({ knownKey, distance: editDistance(key, knownKey) }))
+    .filter(({ distance }) => distance <= Math.max(2, Math.floor(key.length / 4)))
+    .sort((a, b) => a.distance - b.distance);
+  return closest?.knownKey;
+}
+
+/**
+ * Checks a value against the type of an option, returning the problem if any
+ */
+function checkOptionType(value: unknown, type: OptionType): string | undefined {
+  switch (type.kind) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return `must be a string (got ${describeValue(value)})`;
+      }
+      return type.pattern && !new RegExp(type.pattern).test(value)
+        ? `must match ${type.pattern} (got ${describeValue(value)})`
+        : undefined;
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `must be a boolean (got ${describeValue(value)})`;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return `must be an integer (got ${describeValue(value)})`;
+      }
+      if (type.maximum === undefined) {
+        return value < type.minimum ? `must be at least ${type.minimum} (got ${value})` : undefined;
+      }
+      return value < type.minimum || value > type.maximum
+        ? `must be between ${type.minimum} and ${type.maximum} (got ${value})`
+        : undefined;
+    case 'string-array':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? undefined
+        : `must be an array of strings (got ${describeValue(value)})`;
+    case 'enum':
+      return typeof value === 'string' && type.values.includes(value)
+        ? undefined
+        : `must be one of ${type.values.map(item => JSON.stringify(item)).join(', ')} (got ${describeValue(value)})`;
+    case 'function':
+      return typeof value === 'function'
+        ? undefined
+        : `must be a function (got ${describeValue(value)}); callbacks require a TypeScript or JavaScript configuration`;
+    case 'plugins':
+      return Array.isArray(value) ? undefined : `must be an array of plugins (got ${describeValue(value)})`;
+    case 'locales':
+    case 'themes':
+    case 'responsive':
+    case 'svg':
+    case 'asset-kinds':
+    case 'fonts':
+      return isPlainObject(value) ? undefined : `must be an object (got ${describeValue(value)})`;
+    case 'font-overrides':
+      return Array.isArray(value) ? undefined : `must be an array of overrides (got ${describeValue(value)})`;
+  }
+}
+
+/**
+ * Validates the conventions of the locale or theme detection options
+ */
+function validateConventions(conventions: unknown, keyPath: string, issues: ConfigIssue[]): void {
+  if (conventions === undefined) {
+    return;
+  }
+  const problem = Array.isArray(conventions)
+    ? conventions.map(convention => checkOptionType(convention, { kind: 'enum', values: LOCALE_CONVENTIONS })).find(Boolean)
+    : `must be an array (got ${describeValue(conventions)})`;
+  if (problem) {
+    issues.push({ path: `${keyPath}.conventions`, message: problem });
+  }
+}
+
+/**
+ * Validates a list of locales or themes and the default one, which must be part of it
+ */
+function validateKeys(keys: unknown, defaultKey: unknown, names: [string, string], keyPath: string, issues: ConfigIssue[]): void {
+  const [listName, defaultName] = names;
+  if (!Array.isArray(keys) || keys.length === 0 || !keys.every(key => typeof key === 'string')) {
+    issues.push({ path: `${keyPath}.${listName}`, message: `must be a non-empty array of strings (got ${describeValue(keys)})` });
+  } else if (defaultKey !== undefined && (typeof defaultKey !== 'string' || !keys.includes(defaultKey))) {
+    issues.push({ path: `${keyPath}.${defaultName}`, message: `must be one of the ${listName} (got ${describeValue(defaultKey)})` });
+  }
+}
+
+/**
+ * Validates the locale detection options
+ */
+function validateLocales(options: Record<string, unknown>, keyPath: string, issues: ConfigIssue[]): void {
+  const { locales, defaultLocale, conventions, ...unknownOptions } = options;
+
+  validateKeys(locales, defaultLocale, ['locales', 'defaultLocale'], keyPath, issues);
+  validateConventions(conventions, keyPath, issues);
+  Object.keys(unknownOptions).forEach(key => issues.push({ path: `${keyPath}.${key}`, message: 'unknown option' }));
+}
+
+/**
+ * Validates the theme detection options, whose themes default to light and dark
+ */
+function validateThemes(options: Record<string, unknown>, keyPath: string, issues: ConfigIssue[]): void {
+  const { themes = DEFAULT_THEMES, defaultTheme, conventions, ...unknownOptions } = options;
+
+  validateKeys(themes, defaultTheme, ['themes', 'defaultTheme'], keyPath, issues);
+  validateConventions(conventions, keyPath, issues);
+  Object.keys(unknownOptions).forEach(key => issues.push({ path: `${keyPath}.${key}`, message: 'unknown option' }));
+}
+
+/**
+ * Validates the responsive image suffix patterns, which must compile and capture the size
+ */
+function validateResponsiveImages(options: Record<string, unknown>, keyPath: string, issues: ConfigIssue[]): void {
+  const { densityPattern, widthPattern, ...unknownOptions } = options;
+
+  Object.entries({ densityPattern, widthPattern }).forEach(([key, pattern]) => {
+    if (pattern === undefined) {
+      return;
+    }
+    const problem = checkOptionType(pattern, { kind: 'string' });
+    if (problem) {
+      issues.push({ path: `${keyPath}.${key}`, message: problem });
+      return;
+    }
+    try {
+      // The empty alternative always matches, and the match lists every group of the pattern
+      if (new RegExp(`${pattern}|`).exec('')!.length < 2) {
+        issues.push({ path: `${keyPath}.${key}`, message: `must capture the size in a group (got ${describeValue(pattern)})` });
+      }
+    } catch {
+      issues.push({ path: `${keyPath}.${key}`, message: `must be a valid regular expression (got ${describeValue(pattern)})` });
+    }
+  });
+
+  Object.keys(unknownOptions).forEach(key => issues.push({ path: `${keyPath}.${key}`, message: 'unknown option' }));
+}
+
+/**
+ * Validates options against a table of options, reporting the required ones that are missing
+ */
+function validateOptionTable(
+  options: Record<string, unknown>,
+  table: Record<string, ConfigOption>,
+  required: string[],
+  keyPath: string,
+  issues: ConfigIssue[]
+): void {
+  required
+    .filter(key => options[key] === undefined)
+    .forEach(key => issues.push({ path: `${keyPath}.${key}`, message: 'is required' }));
+
+  Object.entries(options).forEach(([key, value]) => {
+    const option = table[key];
+    const problem = option ? checkOptionType(value, option.type) : 'unknown option';
+    if (problem) {
+      issues.push({ path: `${keyPath}.${key}`, message: problem });
+    }
+  });
+}
+
+/**
+ * Options of the SVG output, validated like the options of a configuration
+ */
+const SVG_OPTIONS: Record<string, ConfigOption> = {
+  mode: {
+    type: { kind: 'enum', values: SVG_MODES },
+    description: "'raw' emits the optimized markup as a string, 'component' a React component file"
+  },
+  include: { type: { kind: 'string-array' }, description: 'Patterns of the SVG files to handle (default: **/*.svg)' },
+  currentColor: { type: { kind: 'boolean' }, description: 'Whether to replace the fill and stroke colors with currentColor' },
+  componentsDir: { type: { kind: 'string' }, description: 'Directory of the generated components (default: svg/ next to the output file)' }
+};
+
+/**
+ * Validates the SVG output options, whose mode is required
+ */
+function validateSvg(options: Record<string, unknown>, keyPath: string, issues: ConfigIssue[]): void {
+  validateOptionTable(options, SVG_OPTIONS, ['mode'], keyPath, issues);
+}
+
+/**
+ * Family, weight or style forced on the font files matching a pattern
+ */
+const FONT_OVERRIDE_OPTIONS: Record<string, ConfigOption> = {
+  match: { type: { kind: 'string' }, description: 'Pattern of the font files, relative to the public directory' },
+  family: { type: { kind: 'string' }, description: 'Font family' },
+  weight: { type: { kind: 'string' }, description: "Weight or range of weights of variable fonts, e.g. '700' or '100 900'" },
+  style: { type: { kind: 'enum', values: FONT_STYLES }, description: 'Font style' }
+};
+
+/**
+ * Options of the font stylesheet and module, validated like the options of a configuration
+ */
+const FONT_OPTIONS: Record<string, ConfigOption> = {
+  output: {
+    type: { kind: 'enum', values: FONT_OUTPUTS },
+    description: "'css' generates a @font-face stylesheet, 'next-font' a next/font/local module, 'both' the two"
+  },
+  include: { type: { kind: 'string-array' }, description: 'Patterns of the font files to handle (default: every woff2, woff, ttf and otf file)' },
+  cssFile: { type: { kind: 'string' }, description: 'Path of the stylesheet (default: <output file name>.fonts.css next to the output file)' },
+  moduleFile: { type: { kind: 'string' }, description: 'Path of the module (default: <output file name>.fonts.ts next to the output file)' },
+  display: { type: { kind: 'enum', values: FONT_DISPLAYS }, description: 'font-display of every font (default: swap)' },
+  overrides: {
+    type: { kind: 'font-overrides' },
+    description: 'Rules applied in order to the font files they match, overriding what is inferred from their names'
+  }
+};
+
+/**
+ * Validates the font options, whose output is required, and each override, whose pattern is required
+ */
+function validateFonts(options: Record<string, unknown>, keyPath: string, issues: ConfigIssue[]): void {
+  validateOptionTable(options, FONT_OPTIONS, ['output'], keyPath, issues);
+
+  if (Array.isArray(options.overrides)) {
+    options.overrides.forEach((override, index) => {
+      const overridePath = `${keyPath}.overrides[${index}]`;
+      if (isPlainObject(override)) {
+        validateOptionTable(override, FONT_OVERRIDE_OPTIONS, ['match'], overridePath, issues);
+      } else {
+        issues.push({ path: overridePath, message: `must be an object (got ${describeValue(override)})` });
+      }
+    });
+  }
+}
+
+/**
+ * Validates the kinds of additional file extensions, whose names are used in group and type names
+ */
+function validateAssetKinds(assetKinds: Record<string, unknown>, keyPath: string, issues: ConfigIssue[]): void {
+  Object.keys(assetKinds).forEach(extension => {
+    const problem = checkOptionType(assetKinds[extension], { kind: 'string', pattern: ASSET_KIND_PATTERN });
+    if (problem) {
+      issues.push({ path: `${keyPath}.${extension}`, message: problem });
+    }
+  });
+}
+
+/**
+ * Validates the plugins of a configuration
+ */
+function validatePlugins(plugins: unknown[], keyPath: string, issues: ConfigIssue[]): void {
+  plugins.forEach((plugin, index) => {
+    const pluginPath = `${keyPath}[${index}]`;
+    if (!isPlainObject(plugin)) {
+      issues.push({ path: pluginPath, message: `must be a plugin object (got ${describeValue(plugin)})` });
+      return;
+    }
+    if (typeof plugin.name !== 'string') {
+      issues.push({ path: `${pluginPath}.name`, message: `must be a string (got ${describeValue(plugin.name)})` });
+    }
+    PLUGIN_HOOKS
+      .filter(hook => plugin[hook] !== undefined && typeof plugin[hook] !== 'function')
+      .forEach(hook => issues.push({
+        path: `${pluginPath}.${hook}`,
+        message: `must be a function (got ${describeValue(plugin[hook])})`
+      }));
+  });
+}
+
+/**
+ * Validates the options of each environment
+ */
+function validateEnvironments(environments: unknown, keyPath: string, issues: ConfigIssue[]): void {
+  if (!isPlainObject(environments)) {
+    issues.push({ path: keyPath, message: `must be an object of environments (got ${describeValue(environments)})` });
+    return;
+  }
+
+  Object.keys(environments).forEach(name => {
+    const overrides = environments[name];
+    if (!isPlainObject(overrides)) {
+      issues.push({ path: `${keyPath}.${name}`, message: `must be an object (got ${describeValue(overrides)})` });
+      return;
+    }
+    validateOptions(overrides, `${keyPath}.${name}.`, 'environment', issues);
+  });
+}
+
+/**
+ * Validates the options of a configuration, of one of its entries, or of an environment
+ */
+function validateOptions(config: Record<string, unknown>, prefix: string, scope: OptionsScope, issues: ConfigIssue[]): void {
+  const knownKeys = Object.keys(CONFIG_OPTIONS)
+    .concat(scope === 'environment' ? [] : ['environments'])
+    .concat(scope === 'config' ? ['entries', '$schema'] : []);
+
+  Object.keys(config).forEach(key => {
+    const value = config[key];
+    const keyPath = prefix + key;
+
+    if (value === undefined) {
+      return;
+    }
+    if (key === 'entries') {
+      issues.push({ path: keyPath, message: 'entries cannot be nested' });
+      return;
+    }
+    if (key === 'environments') {
+      if (scope === 'environment') {
+        issues.push({ path: keyPath, message: 'environments cannot be nested' });
+      } else {
+        validateEnvironments(value, keyPath, issues);
+      }
+      return;
+    }
+    if (key === 'name' && scope === 'environment') {
+      issues.push({ path: keyPath, message: 'environments cannot rename an entry' });
+      return;
+    }
+
+    const option = CONFIG_OPTIONS[key];
+    if (!option) {
+      if (!knownKeys.includes(key)) {
+        const suggestion = suggestKey(key, knownKeys);
+        issues.push({
+          path: keyPath,
+          message: suggestion ? `unknown option, did you mean "${suggestion}"?` : 'unknown option'
+        });
+      }
+      return;
+    }
+
+    const problem = checkOptionType(value, option.type);
+    if (problem) {
+      issues.push({ path: keyPath, message: problem });
+    } else if (option.type.kind === 'plugins') {
+      validatePlugins(value as unknown[], keyPath, issues);
+    } else if (option.type.kind === 'locales') {
+      validateLocales(value as Record<string, unknown>, keyPath, issues);
+    } else if (option.type.kind === 'themes') {
+      validateThemes(value as Record<string, unknown>, keyPath, issues);
+    } else if (option.type.kind === 'svg') {
+      validateSvg(value as Record<string, unknown>, keyPath, issues);
+    } else if (option.type.kind === 'responsive') {
+      validateResponsiveImages(value as Record<string, unknown>, keyPath, issues);
+    } else if (option.type.kind === 'asset-kinds') {
+      validateAssetKinds(value as Record<string, unknown>, keyPath, issues);
+    } else if (option.type.kind === 'fonts') {
+      validateFonts(value as Record<string, unknown>, keyPath, issues);
+    }
+  });
+}
+
+/**
+ * Callbacks that the generator only applies along with pathToVariableName
+ */
+const NAMED_CALLBACKS = Object.keys(CONFIG_OPTIONS)
+  .filter(key => CONFIG_OPTIONS[key].type.kind === 'function' && key !== 'pathToVariableName');
+
+/**
+ * Lists the environments of some options that are objects, with their name
+ */
+function getEnvironmentOverrides(options: Record<string, unknown>): Array<[string, Record<string, unknown>]> {
+  const { environments } = options;
+  if (!isPlainObject(environments)) {
+    return [];
+  }
+  return Object.keys(environments)
+    .filter(name => isPlainObject(environments[name]))
+    .map(name => [name, environments[name] as Record<string, unknown>]);
+}
+
+/**
+ * Checks whether some options or one of their environments set pathToVariableName
+ */
+function setsPathToVariableName(options: unknown): boolean {
+  return isPlainObject(options) && (
+    typeof options.pathToVariableName === 'function'
+      || getEnvironmentOverrides(options).some(([, overrides]) => typeof overrides.pathToVariableName === 'function')
+  );
+}
+
+/**
+ * Reports the callbacks of a configuration or entry, and of its environments, that are ignored
+ * because pathToVariableName is set nowhere they apply
+ * @param inherited Whether pathToVariableName is set where these options are merged with
+ */
+function validateNamedCallbacks(
+  options: Record<string, unknown>,
+  prefix: string,
+  inherited: boolean,
+  issues: ConfigIssue[]
+): void {
+  if (inherited || typeof options.pathToVariableName === 'function') {
+    return;
+  }
+
+  const reportCallbacks = (callbacks: Record<string, unknown>, callbacksPrefix: string) => NAMED_CALLBACKS
+    .filter(key => typeof callbacks[key] === 'function')
+    .forEach(key => issues.push({ path: callbacksPrefix + key, message: 'ignored without pathToVariableName' }));
+
+  const environments = getEnvironmentOverrides(options);
+  if (!environments.some(([, overrides]) => typeof overrides.pathToVariableName === 'function')) {
+    reportCallbacks(options, prefix);
+  }
+  environments
+    .filter(([, overrides]) => typeof overrides.pathToVariableName !== 'function')
+    .forEach(([name, overrides]) => reportCallbacks(overrides, `${prefix}environments.${name}.`));
+}
+
+/**
+ * Validates a configuration as written by the user: option types, enum values, unknown keys,
+ * callbacks and plugins, and the same for every entry, along with the callbacks that would be ignored
+ * @returns Every problem found, with its key path; empty when the configuration is valid
+ */
+export function validateConfig(config: unknown): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  if (!isPlainObject(config)) {
+    return [{ path: '', message: `must be an object (got ${describeValue(config)})` }];
+  }
+
+  const { entries, $schema, ...options } = config;
+  validateOptions(options, '', 'config', issues);
+  validateNamedCallbacks(options, '', Array.isArray(entries) && entries.some(setsPathToVariableName), issues);
+
+  if ($schema !== undefined && typeof $schema !== 'string') {
+    issues.push({ path: '$schema', message: `must be a string (got ${describeValue($schema)})` });
+  }
+
+  if (entries !== undefined) {
+    if (!Array.isArray(entries)) {
+      issues.push({ path: 'entries', message: `must be an array of entries (got ${describeValue(entries)})` });
+      return issues;
+    }
+
+    const names = new Set<unknown>();
+    entries.forEach((entry, index) => {
+      if (!isPlainObject(entry)) {
+        issues.push({ path: `entries[${index}]`, message: `must be an object (got ${describeValue(entry)})` });
+        return;
+      }
+      validateOptions(entry, `entries[${index}].`, 'entry', issues);
+      validateNamedCallbacks(entry, `entries[${index}].`, setsPathToVariableName(options), issues);
+      if (typeof entry.name === 'string') {
+        if (names.has(entry.name)) {
+          issues.push({ path: `entries[${index}].name`, message: `duplicated entry name "${entry.name}"` });
+        }
+        names.add(entry.name);
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * JSON Schema of the options that can be written in JSON, callbacks and plugins excluded
+ */
+function createOptionsSchema(options: Record<string, ConfigOption> = CONFIG_OPTIONS): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+
+  Object.keys(options).forEach(key => {
+    const { type, description } = options[key];
+    switch (type.kind) {
+      case 'string':
+        properties[key] = type.pattern ? { description, type: 'string', pattern: type.pattern } : { description, type: 'string' };
+        break;
+      case 'boolean':
+        properties[key] = { description, type: 'boolean' };
+        break;
+      case 'integer':
+        properties[key] = type.maximum === undefined
+          ? { description, type: 'integer', minimum: type.minimum }
+          : { description, type: 'integer', minimum: type.minimum, maximum: type.maximum };
+        break;
+      case 'string-array':
+        properties[key] = { description, type: 'array', items: { type: 'string' } };
+        break;
+      case 'enum':
+        properties[key] = { description, enum: type.values };
+        break;
+      case 'locales':
+        properties[key] = {
+          description,
+          type: 'object',
+          properties: {
+            locales: { description: 'Locales of the application', type: 'array', items: { type: 'string' }, minItems: 1 },
+            defaultLocale: { description: 'Locale used when an asset has no variant for the requested one', type: 'string' },
+            conventions: {
+              description: 'Conventions used to find the locale of a file',
+              type: 'array',
+              items: { enum: LOCALE_CONVENTIONS }
+            }
+          },
+          required: ['locales'],
+          additionalProperties: false
+        };
+        break;
+      case 'themes':
+        properties[key] = {
+          description,
+          type: 'object',
+          properties: {
+            themes: { description: 'Themes of the application (default: light, dark)', type: 'array', items: { type: 'string' }, minItems: 1 },
+            defaultTheme: { description: 'Theme used when an asset has no variant for the requested one', type: 'string' },
+            conventions: {
+              description: 'Conventions used to find the theme of a file (default: suffix)',
+              type: 'array',
+              items: { enum: LOCALE_CONVENTIONS }
+            }
+          },
+          additionalProperties: false
+        };
+        break;
+      case 'svg':
+        properties[key] = {
+          description,
+          type: 'object',
+          properties: createOptionsSchema(SVG_OPTIONS),
+          required: ['mode'],
+          additionalProperties: false
+        };
+        break;
+      case 'responsive':
+        properties[key] = {
+          description,
+          type: 'object',
+          properties: {
+            densityPattern: {
+              description: `Regular expression matching the density suffix of a file name without extension, capturing the density (default: ${DEFAULT_DENSITY_PATTERN})`,
+              type: 'string'
+            },
+            widthPattern: {
+              description: `Regular expression matching the width suffix of a file name without extension, capturing the width (default: ${DEFAULT_WIDTH_PATTERN})`,
+              type: 'string'
+            }
+          },
+          additionalProperties: false
+        };
+        break;
+      case 'asset-kinds':
+        properties[key] = { description, type: 'object', additionalProperties: { type: 'string', pattern: ASSET_KIND_PATTERN } };
+        break;
+      case 'fonts':
+        properties[key] = {
+          description,
+          type: 'object',
+          properties: createOptionsSchema(FONT_OPTIONS),
+          required: ['output'],
+          additionalProperties: false
+        };
+        break;
+      case 'font-overrides':
+        properties[key] = {
+          description,
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: createOptionsSchema(FONT_OVERRIDE_OPTIONS),
+            required: ['match'],
+            additionalProperties: false
+          }
+        };
+        break;
+    }
+  });
+
+  return properties;
+}
+
+/**
+ * Creates the JSON Schema of JSON configuration files, used by editors for validation and completion
+ */
+export function createConfigSchema(): Record<string, unknown> {
+  const options = createOptionsSchema();
+  // Environments override the options of an entry but not its name
+  const environmentOptions = { ...options };
+  delete environmentOptions.name;
+  const environments = {
+    description: ENVIRONMENTS_DESCRIPTION,
+    type: 'object',
+    additionalProperties: { $ref: '#/definitions/environment' }
+  };
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'public-asset-link configuration',
+    type: 'object',
+    properties: {
+      $schema: { description: 'JSON Schema of this file', type: 'string' },
+      ...options,
+      environments,
+      entries: {
+        description: 'Asset roots generated together, each one inheriting the top-level fields as defaults',
+        type: 'array',
+        items: { $ref: '#/definitions/entry' }
+      }
+    },
+    additionalProperties: false,
+    definitions: {
+      entry: {
+        type: 'object',
+        properties: { ...options, environments },
+        additionalProperties: false
+      },
+      environment: {
+        type: 'object',
+        properties: environmentOptions,
+        additionalProperties: false
+      }
+    }
+  };
+}
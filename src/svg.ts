@@ -0,0 +1,205 @@
+import path from 'path';
+import { matchesExcludePatterns } from './patterns';
+import { toStringLiteral } from './formats';
+
+/**
+ * What is emitted next to the path constant of an SVG file
+ * - 'raw': the optimized markup as a string
+ * - 'component': a generated React component file, imported by the output file
+ */
+export type SvgMode = 'raw' | 'component';
+
+export const SVG_MODES: SvgMode[] = ['raw', 'component'];
+
+/**
+ * SVG files handled when no patterns are configured
+ */
+export const DEFAULT_SVG_PATTERNS = ['**/*.svg'];
+
+/**
+ * Options of the SVG markup and component output
+ */
+export interface SvgOptions {
+  mode: SvgMode;
+  /**
+   * Patterns of the SVG files to handle, relative to the public directory (default: ['**\/*.svg'])
+   */
+  include?: string[];
+  /**
+   * Whether to replace the fill and stroke colors with currentColor, so icons follow the text color
+   */
+  currentColor?: boolean;
+  /**
+   * Directory of the generated components, relative to the project root (default: svg/ next to the output file)
+   */
+  componentsDir?: string;
+}
+
+/**
+ * Markup string or component emitted next to the path constant of an SVG file
+ */
+export interface AssetSvg {
+  /**
+   * Variable name of the markup string or of the component
+   */
+  name: string;
+  /**
+   * Optimized markup, in raw mode
+   */
+  markup?: string;
+  /**
+   * Component imported by the output file, in component mode
+   */
+  component?: {
+    /**
+     * Module specifier of the component file, relative to the output file
+     */
+    importPath: string;
+    /**
+     * Name of the component function
+     */
+    componentName: string;
+  };
+}
+
+/**
+ * Checks whether a file is handled by the SVG output
+ */
+export function isSvgTarget(relativePath: string, options: SvgOptions): boolean {
+  return path.extname(relativePath).toLowerCase() === '.svg'
+    && matchesExcludePatterns(relativePath, options.include ?? DEFAULT_SVG_PATTERNS);
+}
+
+/**
+ * Elements whose whitespace is rendered or parsed: text content and stylesheets
+ */
+const WHITESPACE_SENSITIVE_PATTERN = /<(text|style)\b[\s\S]*?<\/\1\s*>/gi;
+
+/**
+ * Minifies SVG markup: drops the XML prolog, doctype, comments and metadata and collapses whitespace,
+ * except inside text and style elements, optionally replacing the fill and stroke colors with currentColor
+ */
+export function optimizeSvg(markup: string, options: Pick<SvgOptions, 'currentColor'> = {}): string {
+  // Set aside the whitespace-sensitive elements behind placeholders that the collapsing leaves alone
+  const preserved: string[] = [];
+  const optimized = markup
+    .replace(/<\?xml[\s\S]*?\?>/g, '')
+    .replace(/<!DOCTYPE[^>]*>/gi, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<metadata\b[\s\S]*?<\/metadata>/gi, '')
+    .replace(WHITESPACE_SENSITIVE_PATTERN, element => `<\u0000${preserved.push(element) - 1}\u0000>`)
+    .replace(/>\s+</g, '><')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*(\/?>)/g, '$1')
+    .trim()
+    .replace(/<\u0000(\d+)\u0000>/g, (_, index: string) => preserved[Number(index)]);
+
+  return options.currentColor
+    // Keep fill="none" and references to gradients or patterns
+    ? optimized.replace(/\b(fill|stroke)="(?!none"|currentColor"|url\()[^"]*"/g, '$1="currentColor"')
+    : optimized;
+}
+
+/**
+ * Converts an SVG attribute name to its React prop name, e.g. stroke-width -> strokeWidth
+ */
+function toReactPropName(name: string): string {
+  if (name === 'class') {
+    return 'className';
+  }
+  return /^(data|aria)-/.test(name) ? name : name.replace(/[:-]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Generates the expression of an inline style as a React style object
+ */
+function generateStyleExpression(style: string): string {
+  const properties = style.split(';')
+    .map(declaration => declaration.split(':'))
+    .filter(([property, value]) => property.trim() && value)
+    .map(([property, ...value]) => `${toPropertyName(property.trim())}: ${toStringLiteral(value.join(':').trim())}`);
+  return `{ ${properties.join(', ')} }`;
+}
+
+/**
+ * Converts a CSS property to its camelCase name, quoted when it is a custom property
+ */
+function toPropertyName(property: string): string {
+  return property.startsWith('--')
+    ? toStringLiteral(property)
+    : property.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Generates the props of the root svg element, and its content
+ * @returns undefined when the markup has no svg root element
+ */
+function splitSvgRoot(markup: string): { props: string[]; content: string } | undefined {
+  const match = markup.match(/^<svg\b([^>]*?)(?:\/>|>([\s\S]*)<\/svg>)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const props: string[] = [];
+  const attributePattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let attribute: RegExpExecArray | null;
+  while ((attribute = attributePattern.exec(match[1])) !== null) {
+    const [, name, doubleQuoted, singleQuoted] = attribute;
+    const value = doubleQuoted ?? singleQuoted;
+    const propName = toReactPropName(name);
+    props.push(propName === 'style'
+      ? `style: ${generateStyleExpression(value)}`
+      : `${/^[A-Za-z_$][\w$]*$/.test(propName) ? propName : toStringLiteral(propName)}: ${toStringLiteral(value)}`);
+  }
+
+  return { props, content: match[2] ?? '' };
+}
+
+/**
+ * Converts a file name to the name of its component, e.g. arrow-left.svg -> ArrowLeft
+ */
+export function getSvgComponentName(relativePath: string): string {
+  const name = path.basename(relativePath, path.extname(relativePath))
+    .split(/[^A-Za-z0-9]+/)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+  return /^[A-Za-z]/.test(name) ? name : `Svg${name}`;
+}
+
+/**
+ * Generates a React component rendering optimized SVG markup, spreading its props over the root element
+ *
+ * The markup is set as inner HTML, so the props type leaves out children.
+ * @returns undefined when the markup has no svg root element
+ */
+export function generateSvgComponentCode(markup: string, componentName: string, relativePath: string): string | undefined {
+  const root = splitSvgRoot(markup);
+  if (!root) {
+    return undefined;
+  }
+
+  return `/**
+ * This file is auto-generated by public-asset-link from /${relativePath}.
+ * Do not edit this file directly.
+ */
+
+import { createElement } from 'react';
+import type { SVGProps } from 'react';
+
+const attributes = ${root.props.length > 0 ? `{ ${root.props.join(', ')} }` : '{}'};
+
+const content = ${toStringLiteral(root.content)};
+
+export default function ${componentName}(props: Omit<SVGProps<SVGSVGElement>, 'children' | 'dangerouslySetInnerHTML'>) {
+  return createElement('svg', { ...attributes, ...props, dangerouslySetInnerHTML: { __html: content } });
+}
+`;
+}
+
+/**
+ * Returns the module specifier importing a generated component from the output file
+ */
+export function getComponentImportPath(outputFile: string, componentFile: string): string {
+  const specifier = path.relative(path.dirname(outputFile), componentFile.replace(/\.ts$/, '')).replace(/\\/g, '/');
+  return specifier.startsWith('.') ? specifier : './' + specifier;
+}
@@ -0,0 +1,122 @@
+import { AssetEntry } from './types';
+import { toStringLiteral } from './formats';
+import { detectLocale, LocaleConvention, LocaleOptions, mergeLocaleVariants } from './locales';
+
+/**
+ * Themes detected when none are configured
+ */
+export const DEFAULT_THEMES = ['light', 'dark'];
+
+/**
+ * Top-level names declared by the theme helpers
+ */
+export const THEME_HELPER_NAMES = ['themes', 'Theme', 'defaultTheme', 'Themed', 'themed'];
+
+/**
+ * Theme detection options
+ */
+export interface ThemeOptions {
+  /**
+   * Themes of the application (default: ['light', 'dark'])
+   */
+  themes?: string[];
+  /**
+   * Theme used when an asset has no variant for the requested one (default: the first theme)
+   */
+  defaultTheme?: string;
+  /**
+   * Conventions used to find the theme of a file, as for locales (default: ['suffix'])
+   */
+  conventions?: LocaleConvention[];
+}
+
+/**
+ * The theme of a file, and its path once the theme is removed
+ */
+export interface ThemeMatch {
+  theme: string;
+  /**
+   * Path relative to the public directory without the theme, shared by every variant
+   */
+  themedPath: string;
+}
+
+/**
+ * Themes are detected and merged like locales
+ */
+function toLocaleOptions(options: ThemeOptions): LocaleOptions {
+  return {
+    locales: options.themes ?? DEFAULT_THEMES,
+    defaultLocale: options.defaultTheme,
+    conventions: options.conventions ?? ['suffix']
+  };
+}
+
+/**
+ * Returns the default theme of the options
+ */
+export function getDefaultTheme(options: ThemeOptions): string {
+  return options.defaultTheme ?? (options.themes ?? DEFAULT_THEMES)[0];
+}
+
+/**
+ * Detects the theme of a file from its relative path, e.g. logo.dark.svg
+ * @returns The theme and the path shared by the variants, or undefined if the file is not themed
+ */
+export function detectTheme(relativePath: string, options: ThemeOptions): ThemeMatch | undefined {
+  const match = detectLocale(relativePath, toLocaleOptions(options));
+  return match && { theme: match.locale, themedPath: match.localizedPath };
+}
+
+/**
+ * Merges the variants of a themed asset into one entry, whose own value is the one of the default
+ * theme (or of the first available theme)
+ * @returns The entry, and the themes without a variant
+ */
+export function mergeThemeVariants(
+  themedPath: string,
+  variants: Map<string, AssetEntry>,
+  options: ThemeOptions
+): { entry: AssetEntry; missing: string[] } {
+  const { entry: { locales, ...entry }, missing } = mergeLocaleVariants(themedPath, variants, toLocaleOptions(options));
+  return { entry: { ...entry, themes: locales }, missing };
+}
+
+/**
+ * Generates the Theme type, the Themed map type and the themed() helper
+ */
+export function generateThemeHelpersCode(options: ThemeOptions): string {
+  const themes = (options.themes ?? DEFAULT_THEMES).map(toStringLiteral);
+
+  return `/**
+ * Themes of the themed assets
+ */
+export const themes = [${themes.join(', ')}] as const;
+
+export type Theme = (typeof themes)[number];
+
+export const defaultTheme: Theme = ${toStringLiteral(getDefaultTheme(options))};
+
+/**
+ * Variants of a themed asset, keyed by theme
+ */
+export type Themed<T> = { readonly [K in Theme]?: T };
+
+/**
+ * Returns the variant of a themed asset for a theme, falling back to the default theme,
+ * then to the first available one
+ */
+export function themed<T>(asset: Themed<T>, theme: Theme): T {
+  const variant = asset[theme] ?? asset[defaultTheme];
+  if (variant !== undefined) {
+    return variant;
+  }
+  for (const available of themes) {
+    if (asset[available] !== undefined) {
+      return asset[available] as T;
+    }
+  }
+  throw new Error('Themed asset has no variant');
+}
+`;
+}
@@ -0,0 +1,71 @@
+import { AssetEntry, AssetGroup } from './types';
+
+/**
+ * An asset entry together with the variable names leading to it
+ */
+export interface FlatAssetEntry {
+  path: string[];
+  entry: AssetEntry;
+}
+
+/**
+ * Checks whether a tree node is an asset entry rather than a nested group
+ */
+export function isAssetEntry(node: AssetEntry | AssetGroup): node is AssetEntry {
+  return typeof node.relativePath === 'string';
+}
+
+/**
+ * Returns the URL assigned to the variable of an entry: its data URI when the file is inlined,
+ * its path value otherwise
+ */
+export function getAssetUrl(entry: Pick<AssetEntry, 'value' | 'dataUri'>): string {
+  return entry.dataUri ?? entry.value;
+}
+
+/**
+ * Lists every entry of the tree in declaration order
+ */
+export function flattenAssetTree(group: AssetGroup, parentPath: string[] = []): FlatAssetEntry[] {
+  return Object.entries(group).flatMap(([key, node]) => isAssetEntry(node)
+    ? [{ path: [...parentPath, key], entry: node }]
+    : flattenAssetTree(node, [...parentPath, key]));
+}
+
+/**
+ * Lists every file of the tree in declaration order together with the names leading to it: each entry,
+ * each variant of localized or themed entries (named after the locale or theme), or of responsive images
+ * (named after the descriptor) after their default image when it is not one of the variants
+ */
+export function flattenAssetFiles(group: AssetGroup): FlatAssetEntry[] {
+  return flattenAssetTree(group).flatMap(({ path, entry }) => {
+    const keyedVariants = entry.locales ?? entry.themes;
+    if (keyedVariants) {
+      return Object.keys(keyedVariants).map(key => ({ path: [...path, key], entry: keyedVariants[key] }));
+    }
+    if (entry.variants) {
+      const variants = entry.variants.map(variant => ({ path: [...path, variant.descriptor], entry: variant }));
+      // The default image of a width set has no descriptor when its width is unknown
+      return entry.variants.some(variant => variant.filePath === entry.filePath)
+        ? variants
+        : [{ path, entry }, ...variants];
+    }
+    return [{ path, entry }];
+  });
+}
+
+/**
+ * A path value of the tree together with the names leading to it
+ */
+export interface FlatAssetValue {
+  path: string[];
+  value: string;
+}
+
+/**
+ * Lists every path value of the tree in declaration order, see flattenAssetFiles; inlined files
+ * keep their path value rather than their data URI
+ */
+export function flattenAssetValues(group: AssetGroup): FlatAssetValue[] {
+  return flattenAssetFiles(group).map(({ path, entry }) => ({ path, value: entry.value }));
+}
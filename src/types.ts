@@ -2,7 +2,36 @@
  * Types for public-asset-link configuration
  */
 
+import { ImageSize } from './image';
+import { ContentHashStrategy } from './hash';
+import { CollisionStrategy, NamingStrategy } from './naming';
+import { OutputFormat } from './formats';
+import { NameIssue } from './naming';
+import { AssetLinkPlugin } from './plugins';
+import { LocaleOptions } from './locales';
+import { ResponsiveOptions } from './responsive';
+import { ThemeOptions } from './themes';
+import { AssetSvg, SvgOptions } from './svg';
+import { InlinedAsset } from './inline';
+import { GroupBy } from './kinds';
+import { FontOptions } from './fonts';
+
 export interface BaseConfig {
+  /**
+   * Name of the entry, used in summaries and to select entries from the command line
+   */
+  name?: string;
+
+  /**
+   * Asset roots generated together, each one inheriting the top-level fields as defaults
+   */
+  entries?: ConfigEntry[];
+
+  /**
+   * Options overridden per environment, selected with --env or the ASSET_LINK_ENV variable
+   */
+  environments?: Record<string, EnvironmentOverrides>;
+
   /**
    * Directory containing public assets to scan (relative to project root)
    */
@@ -22,6 +51,154 @@ export interface BaseConfig {
    * Whether to group assets by subdirectory
    */
   groupByDirectory: boolean;
+
+  /**
+   * How assets are nested, taking precedence over groupByDirectory
+   * 'directory' | 'kind' | 'kind-directory' (kind at the top level, then directory)
+   */
+  groupBy?: GroupBy;
+
+  /**
+   * Kinds of additional file extensions used by groupBy, e.g. { "glb": "model" }, overriding the built-in ones
+   */
+  assetKinds?: Record<string, string>;
+
+  /**
+   * Shape of the generated module
+   * 'namespace' | 'object' | 'record' | 'union' | 'enum'
+   */
+  outputFormat?: OutputFormat;
+
+  /**
+   * Whether to emit the AssetPath union, the assetPaths list,
+   * and the isAssetPath() and asset() helpers
+   */
+  emitPathHelpers?: boolean;
+
+  /**
+   * Plugins hooking into the generation, run in order (TypeScript/JavaScript configs only)
+   */
+  plugins?: AssetLinkPlugin[];
+
+  /**
+   * How duplicated, invalid or reserved variable names are resolved
+   * 'error' | 'suffix-extension' | 'suffix-counter' | 'qualify-parent'
+   */
+  collisionStrategy?: CollisionStrategy;
+
+  /**
+   * Whether to emit images as next/image compatible objects (src, width, height)
+   * instead of plain path strings
+   */
+  emitImageData?: boolean;
+
+  /**
+   * Whether to infer a type from the content of each JSON file, and to emit the JsonAssets map
+   * and the typed fetchAsset() helper
+   */
+  emitJsonTypes?: boolean;
+
+  /**
+   * Whether to add a blurDataURL to emitted image objects
+   */
+  blurPlaceholder?: boolean;
+
+  /**
+   * Whether to compute a content hash for each asset to bust browser caches
+   */
+  contentHash?: boolean;
+
+  /**
+   * How the content hash is added to the path value
+   * 'query' appends ?v=<hash>, 'path' inserts it before the file extension,
+   * 'none' only passes it to transformPathValue
+   */
+  contentHashStrategy?: ContentHashStrategy;
+
+  /**
+   * Number of hex characters kept from the content hash
+   */
+  contentHashLength?: number;
+
+  /**
+   * Base path of the application (Next.js basePath), prepended to every path value
+   */
+  basePath?: string;
+
+  /**
+   * URL prefix of the assets, such as a CDN origin, prepended before the basePath
+   */
+  assetPrefix?: string;
+
+  /**
+   * Name of an environment variable the generated file reads the prefix from when it is imported,
+   * instead of baking assetPrefix and basePath in (they become the fallback)
+   */
+  runtimePrefixEnv?: string;
+
+  /**
+   * Groups the locale variants of an asset (banner.fr.png, fr/banner.png) into one map keyed by locale
+   */
+  locales?: LocaleOptions;
+
+  /**
+   * Groups the theme variants of an asset (logo.light.svg, logo.dark.svg) into one map keyed by theme;
+   * an empty object detects light and dark suffixes
+   */
+  themes?: ThemeOptions;
+
+  /**
+   * Groups the density (hero@2x.png) and width (card-640w.jpg) variants of an image into one
+   * export with src, srcSet and variants; an empty object uses the default suffix patterns
+   */
+  responsiveImages?: ResponsiveOptions;
+
+  /**
+   * Emits the optimized markup or a React component next to the path constant of SVG files
+   * (namespace and object formats)
+   */
+  svg?: SvgOptions;
+
+  /**
+   * Generates a @font-face stylesheet and/or a next/font/local module from the font files
+   */
+  fonts?: FontOptions;
+
+  /**
+   * Files smaller than this size in bytes are exported as data URIs instead of paths
+   */
+  inlineThreshold?: number;
+
+  /**
+   * Patterns of the files that can be inlined (default: every file)
+   */
+  inlineInclude?: string[];
+
+  /**
+   * Patterns of the files that are never inlined
+   */
+  inlineExclude?: string[];
+
+  /**
+   * Whether to write a JSON manifest listing the path, value, variable name, size, MIME type,
+   * hash and modification time of every included asset
+   */
+  emitManifest?: boolean;
+
+  /**
+   * Path of the manifest, relative to the project root (default: <output file name>.manifest.json next to the output file)
+   */
+  manifestFile?: string;
+}
+
+/**
+ * Additional information passed to transformPathValue
+ */
+export interface PathValueInfo {
+  /**
+   * Content hash of the file, set when contentHash is enabled
+   */
+  hash?: string;
 }
 
 /**
@@ -32,7 +209,7 @@ export interface JsonConfig extends BaseConfig {
    * Variable naming strategy
    * 'camelCase' | 'PascalCase' | 'snake_case'
    */
-  namingStrategy: 'camelCase' | 'PascalCase' | 'snake_case';
+  namingStrategy: NamingStrategy;
   
   /**
    * Whether to add file extensions to variable names
@@ -61,9 +238,10 @@ export interface TsConfig extends BaseConfig {
    * Optional function to modify the path value assigned to the variable
    * @param filePath Original path to the asset file
    * @param relativePath Path relative to the public directory
+   * @param info Additional information about the asset, such as its content hash
    * @returns The path value to assign to the variable
    */
-  transformPathValue?: (filePath: string, relativePath: string) => string;
+  transformPathValue?: (filePath: string, relativePath: string, info?: PathValueInfo) => string;
   
   /**
    * Optional function to determine if a file should be included
@@ -72,6 +250,117 @@ export interface TsConfig extends BaseConfig {
    * @returns True if the file should be included, false otherwise
    */
   shouldIncludeFile?: (filePath: string, relativePath: string) => boolean;
+
+  /**
+   * Optional function to compute the blurDataURL of an image (requires blurPlaceholder)
+   * @param filePath Original path to the asset file
+   * @param relativePath Path relative to the public directory
+   * @param size Intrinsic dimensions of the image
+   * @returns A data URL, or undefined to omit the placeholder
+   */
+  getBlurDataURL?: (filePath: string, relativePath: string, size: ImageSize) => string | undefined;
+}
+
+/**
+ * Image data emitted as a next/image compatible object
+ */
+export interface AssetImageData extends ImageSize {
+  blurDataURL?: string;
+}
+
+/**
+ * A single asset file in the generated tree
+ */
+export interface AssetEntry {
+  filePath: string;
+  /**
+   * Path relative to the public directory
+   */
+  relativePath: string;
+  /**
+   * Path value of the file, assigned to the variable unless the file is inlined
+   */
+  value: string;
+  image?: AssetImageData;
+  /**
+   * Data URI assigned to the variable instead of the path value, when the file is inlined
+   */
+  dataUri?: string;
+  /**
+   * Type inferred from the content of a JSON file
+   */
+  jsonType?: string;
+  /**
+   * Variants of a localized asset keyed by locale; the entry itself holds the default one
+   */
+  locales?: Record<string, AssetEntry>;
+  /**
+   * Variants of a themed asset keyed by theme; the entry itself holds the default one
+   */
+  themes?: Record<string, AssetEntry>;
+  /**
+   * Density or width variants of a responsive image, ordered by size; the entry itself holds the default one
+   */
+  variants?: ResponsiveVariant[];
+  /**
+   * Markup string or component emitted next to the path constant of an SVG file
+   */
+  svg?: AssetSvg;
+  /**
+   * Extra metadata attached by plugins
+   */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A variant of a responsive image with its srcset descriptor, e.g. '2x' or '640w'
+ */
+export interface ResponsiveVariant extends AssetEntry {
+  descriptor: string;
+}
+
+/**
+ * Assets grouped by variable name, nested per directory
+ */
+export interface AssetGroup {
+  [key: string]: AssetEntry | AssetGroup;
+}
+
+/**
+ * Why an asset file was left out of the generated file
+ * - 'exclude-pattern': matched one of the excludePatterns
+ * - 'filtered': rejected by shouldIncludeFile
+ */
+export type ExclusionReason = 'exclude-pattern' | 'filtered';
+
+/**
+ * An asset file left out of the generated file
+ */
+export interface ExcludedAsset {
+  filePath: string;
+  relativePath: string;
+  reason: ExclusionReason;
+}
+
+/**
+ * Asset tree built from the scanned files, with the decisions taken along the way
+ */
+export interface AssetTree {
+  tree: AssetGroup;
+  /**
+   * Paths of the files emitted in the tree
+   */
+  included: string[];
+  excluded: ExcludedAsset[];
+  /**
+   * Variable names changed to avoid collisions or invalid identifiers
+   */
+  renamed: NameIssue[];
+  /**
+   * Files exported as data URIs
+   */
+  inlined: InlinedAsset[];
+  warnings: string[];
 }
 
 /**
@@ -79,6 +368,33 @@ export interface TsConfig extends BaseConfig {
  */
 export type Config = JsonConfig | TsConfig;
 
+/**
+ * An asset root of a configuration with its own output file, overriding any top-level field or callback
+ */
+export type ConfigEntry = Partial<Omit<JsonConfig, 'entries'>> & Partial<Omit<TsConfig, 'entries'>>;
+
+/**
+ * Options of an environment, overriding the ones of the configuration or entry
+ */
+export interface EnvironmentOverrides
+  extends Partial<Omit<JsonConfig, 'name' | 'entries' | 'environments'>>,
+    Partial<Omit<TsConfig, 'name' | 'entries' | 'environments'>> {}
+
+/**
+ * Callbacks that only apply along with pathToVariableName
+ */
+type TsConfigCallback = Exclude<keyof TsConfig, keyof BaseConfig | 'pathToVariableName'>;
+
+/**
+ * Configuration as written in a configuration file, merged with the defaults when loaded
+ *
+ * The callbacks require pathToVariableName, which entries inherit from the top level.
+ */
+export type UserConfig = (
+  | (ConfigEntry & Pick<TsConfig, 'pathToVariableName'>)
+  | (ConfigEntry & { [K in TsConfigCallback]?: undefined })
+) & { entries?: ConfigEntry[] };
+
 /**
  * Type guard to check if a config is a TypeScript config
  */
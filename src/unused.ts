@@ -0,0 +1,307 @@
+import fs from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { Config } from './types';
+import { generate, GeneratedAsset } from './api';
+import { ASSETS_ENUM_NAME, ASSETS_OBJECT_NAME, getEnumMemberNames } from './formats';
+
+/**
+ * Source files scanned for references when no glob is given: every script of the project, so that
+ * layouts such as Next.js app/, pages/ and components/ directories are covered
+ */
+export const DEFAULT_SOURCE_GLOBS = ['**/*.{ts,tsx,js,jsx,mjs,cjs}'];
+
+/**
+ * Dependencies and build outputs, never scanned as source files
+ */
+export const SOURCE_IGNORE_PATTERNS = ['**/node_modules/**', '.next/**', 'out/**', 'dist/**', 'build/**'];
+
+/**
+ * Thrown when deleting unused assets although no source file was scanned, which would delete them all
+ */
+export class NoSourceFilesError extends Error {
+  constructor(public readonly sources: string[]) {
+    super(`No source file matches ${sources.join(', ')}, refusing to delete every asset as unused`);
+    this.name = 'NoSourceFilesError';
+  }
+}
+
+export interface FindUnusedOptions {
+  /**
+   * Globs of the source files to scan, relative to the project root
+   */
+  sources?: string[];
+}
+
+export interface UnusedAsset extends GeneratedAsset {
+  /**
+   * Size of the file in bytes, of all its variants for localized assets
+   */
+  size: number;
+}
+
+export interface UnusedAssetsReport {
+  /**
+   * Globs of the scanned source files
+   */
+  sourceGlobs: string[];
+  /**
+   * Absolute paths of the scanned source files
+   */
+  sources: string[];
+  /**
+   * Number of assets referenced at least once
+   */
+  referenced: number;
+  unused: UnusedAsset[];
+  /**
+   * Total size of the unused assets in bytes
+   */
+  totalSize: number;
+}
+
+/**
+ * An import of the generated file: local name -> exported name, or '' for `import * as`
+ */
+type ImportBindings = Map<string, string>;
+
+const IMPORT_PATTERN = /import\s+(?:type\s+)?([^'";]+?)\s+from\s+['"]([^'"]+)['"];?/g;
+
+const EXTENSION_PATTERN = /\.(?:ts|tsx|js|jsx|mjs|cjs|mts|cts)$/;
+
+/**
+ * Checks whether an import specifier points to the generated file
+ *
+ * Relative specifiers are resolved from the importing file; other specifiers (path aliases
+ * such as `@/generated/assetPaths`) match when they end with the name of the generated file.
+ */
+function isGeneratedFileImport(specifier: string, sourceFile: string, outputFile: string): boolean {
+  const outputWithoutExtension = outputFile.replace(EXTENSION_PATTERN, '');
+
+  if (specifier.startsWith('.')) {
+    const resolved = path.resolve(path.dirname(sourceFile), specifier).replace(EXTENSION_PATTERN, '');
+    return resolved === outputWithoutExtension;
+  }
+
+  const outputName = path.basename(outputWithoutExtension);
+  return specifier.replace(EXTENSION_PATTERN, '').split('/').pop() === outputName;
+}
+
+/**
+ * Parses the bindings of an import clause such as `{ images, data as d }` or `* as assets`
+ */
+function parseImportClause(clause: string): ImportBindings {
+  const bindings: ImportBindings = new Map();
+
+  const namespaceMatch = clause.match(/\*\s+as\s+([\w$]+)/);
+  if (namespaceMatch) {
+    bindings.set(namespaceMatch[1], '');
+  }
+
+  const namedMatch = clause.match(/\{([^}]*)\}/);
+  if (namedMatch) {
+    namedMatch[1].split(',').forEach(specifier => {
+      const [exported, local] = specifier.trim().replace(/^type\s+/, '').split(/\s+as\s+/);
+      if (exported) {
+        bindings.set(local ?? exported, exported);
+      }
+    });
+  }
+
+  return bindings;
+}
+
+/**
+ * Finds the member chains accessed on the generated exports, e.g. `images.logo` -> ['images', 'logo'],
+ * relative to the generated module
+ */
+function findGeneratedReferences(source: string, sourceFile: string, outputFile: string): string[][] {
+  const bindings: ImportBindings = new Map();
+  const code = source.replace(IMPORT_PATTERN, (statement, clause: string, specifier: string) => {
+    if (!isGeneratedFileImport(specifier, sourceFile, outputFile)) {
+      return statement;
+    }
+    parseImportClause(clause).forEach((exported, local) => bindings.set(local, exported));
+    // The import itself is not a reference
+    return '';
+  });
+
+  const references: string[][] = [];
+  bindings.forEach((exported, local) => {
+    const escaped = local.replace(/\$/g, '\\$');
+    const pattern = new RegExp(`(?<![\\w$.])${escaped}((?:\\s*\\??\\.\\s*[\\w$]+)*)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(code)) !== null) {
+      const members = match[1].split('.').map(member => member.replace(/[\s?]/g, '')).filter(Boolean);
+      references.push(exported ? [exported, ...members] : members);
+    }
+  });
+
+  return references;
+}
+
+/**
+ * Checks whether a source contains a path string, not as a part of a longer path
+ */
+function containsPath(source: string, assetPath: string): boolean {
+  const escaped = assetPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\w./-])${escaped}(?![\\w./-])`).test(source);
+}
+
+/**
+ * Maps a reference to the generated module onto the nested names of the assets,
+ * or returns undefined when it does not designate assets
+ */
+function toAssetPath(reference: string[], config: Config, enumNames: Map<string, string[]>): string[] | undefined {
+  switch (config.outputFormat ?? 'namespace') {
+    case 'namespace':
+      return reference;
+    case 'object':
+      return reference[0] === ASSETS_OBJECT_NAME ? reference.slice(1) : undefined;
+    case 'enum':
+      if (reference[0] !== ASSETS_ENUM_NAME) {
+        return undefined;
+      }
+      return reference.length > 1 ? enumNames.get(reference[1]) : [];
+    // The record and union formats are referenced by path strings
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Lists the files of an asset: the file itself, every variant of a localized or themed asset, or the default
+ * image and every variant of a responsive image
+ */
+function getAssetFiles(asset: GeneratedAsset): Array<{ filePath: string; relativePath: string; value: string }> {
+  const keyedVariants = asset.locales ?? asset.themes;
+  if (keyedVariants) {
+    return Object.keys(keyedVariants).map(key => keyedVariants[key]);
+  }
+  const variants = asset.variants;
+  if (variants) {
+    return variants.some(variant => variant.filePath === asset.filePath) ? variants : [asset, ...variants];
+  }
+  return [asset];
+}
+
+/**
+ * Checks whether one list of names starts with the other one
+ */
+function isPrefixRelated(a: string[], b: string[]): boolean {
+  const length = Math.min(a.length, b.length);
+  return a.slice(0, length).every((name, index) => name === b[index]);
+}
+
+/**
+ * Lists the assets that are never referenced by the source files, either through the generated
+ * variables or through their path strings
+ *
+ * Passing a whole namespace or object (e.g. `images` or `assets`) counts as a reference to every asset in it.
+ */
+export async function findUnusedAssets(config: Config, options: FindUnusedOptions = {}): Promise<UnusedAssetsReport> {
+  const result = await generate(config, { write: false });
+
+  const sourceGlobs = options.sources ?? DEFAULT_SOURCE_GLOBS;
+  const sources = await glob(sourceGlobs, {
+    cwd: process.cwd(),
+    absolute: true,
+    nodir: true,
+    ignore: SOURCE_IGNORE_PATTERNS
+  });
+  const generatedFiles = new Set([result.outputFile, ...result.emittedFiles.map(file => file.filePath)]);
+  const sourceFiles = sources.filter(file => !generatedFiles.has(file)).sort();
+
+  // Enum members are declared per URL, i.e. per variant of localized and themed assets and of responsive images
+  const enumNames = new Map<string, string[]>();
+  const assetPaths = result.assets.map(asset => asset.name.split('.'));
+  const valuePaths = result.assets.flatMap((asset, index) => {
+    const keyedVariants = asset.locales ?? asset.themes;
+    if (keyedVariants) {
+      return Object.keys(keyedVariants).map(key => [...assetPaths[index], key]);
+    }
+    if (asset.variants) {
+      const variantPaths = asset.variants.map(variant => [...assetPaths[index], variant.descriptor]);
+      return asset.variants.some(variant => variant.filePath === asset.filePath)
+        ? variantPaths
+        : [assetPaths[index], ...variantPaths];
+    }
+    return [assetPaths[index]];
+  });
+  getEnumMemberNames(valuePaths).forEach((name, index) => enumNames.set(name, valuePaths[index]));
+
+  // SVG markup and components are declared next to their asset, and reference it too
+  const svgPaths = result.assets.map((asset, index) => asset.svg && [...assetPaths[index].slice(0, -1), asset.svg.name]);
+
+  const referenced = new Set<GeneratedAsset>();
+  sourceFiles.forEach(sourceFile => {
+    const source = fs.readFileSync(sourceFile, 'utf8');
+
+    result.assets.forEach(asset => {
+      const files = getAssetFiles(asset);
+      if (files.some(file => containsPath(source, file.value) || containsPath(source, '/' + file.relativePath))) {
+        referenced.add(asset);
+      }
+    });
+
+    findGeneratedReferences(source, sourceFile, result.outputFile).forEach(reference => {
+      const referencePath = toAssetPath(reference, config, enumNames);
+      if (!referencePath) {
+        return;
+      }
+      result.assets.forEach((asset, index) => {
+        const svgPath = svgPaths[index];
+        if (isPrefixRelated(referencePath, assetPaths[index]) || (svgPath && isPrefixRelated(referencePath, svgPath))) {
+          referenced.add(asset);
+        }
+      });
+    });
+  });
+
+  const unused = result.assets
+    .filter(asset => !referenced.has(asset))
+    .map(asset => ({
+      ...asset,
+      size: getAssetFiles(asset).reduce((total, file) => total + fs.statSync(file.filePath).size, 0)
+    }));
+
+  return {
+    sourceGlobs,
+    sources: sourceFiles,
+    referenced: referenced.size,
+    unused,
+    totalSize: unused.reduce((total, asset) => total + asset.size, 0)
+  };
+}
+
+/**
+ * Deletes the unused assets of a report
+ * @param dryRun Only return the files that would be deleted
+ * @returns Absolute paths of the deleted files, including every variant of localized assets
+ * @throws NoSourceFilesError if the report scanned no source file
+ */
+export function deleteUnusedAssets(report: UnusedAssetsReport, dryRun = false): string[] {
+  if (!dryRun && report.sources.length === 0) {
+    throw new NoSourceFilesError(report.sourceGlobs);
+  }
+  return report.unused.flatMap(getAssetFiles).map(({ filePath }) => {
+    if (!dryRun) {
+      fs.unlinkSync(filePath);
+    }
+    return filePath;
+  });
+}
+
+/**
+ * Formats a size in bytes, e.g. 1536 -> "1.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} ${units[unit]}` : `${value.toFixed(1)} ${units[unit]}`;
+}
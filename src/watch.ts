@@ -0,0 +1,285 @@
+import path from 'path';
+import chokidar, { FSWatcher } from 'chokidar';
+import { glob } from 'glob';
+import { Config } from './types';
+import { loadConfig, resolveConfigEntries } from './config';
+import { findAssetFiles, generate, GenerateResult } from './api';
+import { AssetEntryCache } from './generator';
+import { createLogger, Logger } from './logger';
+import { matchesExcludePatterns } from './patterns';
+
+/**
+ * Delay without file events after which a batch of changes is processed
+ */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 100;
+
+export interface WatchOptions {
+  /**
+   * Configuration file to watch and reload with loadConfig when it changes, along with the local modules it imports
+   */
+  configPath?: string;
+  /**
+   * Only watch the entries with these names
+   */
+  entries?: string[];
+  /**
+   * Delay without file events before regenerating, in milliseconds (default: 100)
+   */
+  debounceMs?: number;
+  logger?: Logger;
+  /**
+   * Called after each generation, including the ones that left the output file unchanged
+   */
+  onGenerate?: (result: GenerateResult) => void;
+  /**
+   * Called when a generation fails; watching goes on
+   */
+  onError?: (error: unknown) => void;
+}
+
+export interface AssetWatcher {
+  /**
+   * Processes the pending events now instead of waiting for the debounce delay
+   */
+  flush: () => Promise<void>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Resolves once the initial scan of a watcher is done, so that later changes are reported
+ */
+function waitUntilReady(watcher: FSWatcher): Promise<void> {
+  return new Promise(resolve => watcher.once('ready', () => resolve()));
+}
+
+/**
+ * Watches the public directory of one entry and regenerates its output file on changes
+ */
+async function watchEntry(config: Config, options: WatchOptions): Promise<AssetWatcher> {
+  const logger = options.logger ?? createLogger();
+  const debounceMs = options.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+
+  let files = new Set<string>();
+  const cache: AssetEntryCache = new Map();
+
+  let assetWatcher: FSWatcher | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+  let pending = false;
+
+  const publicDirAbs = () => path.resolve(process.cwd(), config.publicDir);
+
+  const isExcluded = (watchedPath: string): boolean => {
+    const relativePath = path.relative(publicDirAbs(), watchedPath);
+    if (relativePath === '' || relativePath.startsWith('..')) {
+      return false;
+    }
+    return matchesExcludePatterns(relativePath.split(path.sep).join('/'), config.excludePatterns);
+  };
+
+  const regenerate = async (): Promise<void> => {
+    try {
+      const result = await generate(config, { files: Array.from(files), cache });
+      options.onGenerate?.(result);
+    } catch (error) {
+      options.onError?.(error);
+    }
+  };
+
+  // Runs one generation at a time, running again if events arrived meanwhile
+  const flush = async (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+    if (running) {
+      pending = true;
+      return running;
+    }
+
+    running = regenerate();
+    await running;
+    running = undefined;
+
+    if (pending) {
+      pending = false;
+      await flush();
+    }
+  };
+
+  const schedule = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = undefined;
+      void flush();
+    }, debounceMs);
+  };
+
+  const onFileChanged = (filePath: string) => {
+    logger.debug(`Changed: ${filePath}`, { event: 'watch-change', filePath });
+    cache.delete(filePath);
+    schedule();
+  };
+
+  const onFileAdded = (filePath: string) => {
+    logger.debug(`Added: ${filePath}`, { event: 'watch-add', filePath });
+    files.add(filePath);
+    cache.delete(filePath);
+    schedule();
+  };
+
+  const onFileRemoved = (filePath: string) => {
+    logger.debug(`Removed: ${filePath}`, { event: 'watch-unlink', filePath });
+    files.delete(filePath);
+    cache.delete(filePath);
+    schedule();
+  };
+
+  const onDirAdded = async (dirPath: string) => {
+    logger.debug(`Added directory: ${dirPath}`, { event: 'watch-add-dir', dirPath });
+    const dirFiles = await glob('**/*', { cwd: dirPath, dot: true, nodir: true, absolute: true });
+    dirFiles.forEach(filePath => {
+      files.add(filePath);
+      cache.delete(filePath);
+    });
+    schedule();
+  };
+
+  const onDirRemoved = (dirPath: string) => {
+    logger.debug(`Removed directory: ${dirPath}`, { event: 'watch-unlink-dir', dirPath });
+    const prefix = dirPath + path.sep;
+    Array.from(files)
+      .filter(filePath => filePath.startsWith(prefix))
+      .forEach(filePath => {
+        files.delete(filePath);
+        cache.delete(filePath);
+      });
+    schedule();
+  };
+
+  const startAssetWatcher = async () => {
+    files = new Set(await findAssetFiles(config));
+
+    assetWatcher = chokidar.watch(publicDirAbs(), {
+      ignored: isExcluded,
+      ignoreInitial: true,
+      persistent: true
+    });
+    assetWatcher
+      .on('add', onFileAdded)
+      .on('unlink', onFileRemoved)
+      .on('change', onFileChanged)
+      .on('addDir', onDirAdded)
+      .on('unlinkDir', onDirRemoved);
+    await waitUntilReady(assetWatcher);
+  };
+
+  await startAssetWatcher();
+  await flush();
+  logger.info(`Watching for changes in ${config.publicDir}...`, { event: 'watch', publicDir: publicDirAbs() });
+
+  return {
+    flush,
+    close: async () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      await running;
+      await assetWatcher?.close();
+    }
+  };
+}
+
+/**
+ * Watches the public directory of every entry and regenerates their output files on changes
+ *
+ * Events are batched until no event occurred for the debounce delay. The list of files is updated
+ * from the events instead of rescanning the directory, and only the entries of changed files are
+ * recomputed. The output file is only written when its content changes.
+ */
+export async function watchAssets(initialConfig: Config, options: WatchOptions = {}): Promise<AssetWatcher> {
+  const logger = options.logger ?? createLogger();
+
+  // Starts the watchers of the entries one by one, closing the started ones if one fails
+  const startEntryWatchers = async (entries: Config[]): Promise<AssetWatcher[]> => {
+    const started: AssetWatcher[] = [];
+    try {
+      for (const entry of entries) {
+        started.push(await watchEntry(entry, options));
+      }
+      return started;
+    } catch (error) {
+      await Promise.all(started.map(watcher => watcher.close()));
+      throw error;
+    }
+  };
+
+  let currentEntries = resolveConfigEntries(initialConfig, options.entries);
+  let entryWatchers = await startEntryWatchers(currentEntries);
+
+  let configWatcher: FSWatcher | undefined;
+  let reloading: Promise<void> | undefined;
+  let reloadPending = false;
+  let closed = false;
+
+  const configPath = options.configPath;
+  if (configPath) {
+    // The new configuration is loaded before the watchers are replaced, and the previous watchers
+    // are restarted when the new ones fail, so that the assets stay watched until it is fixed
+    const reloadConfig = async (): Promise<void> => {
+      logger.info(`Configuration changed, reloading ${configPath}`, { event: 'config-reload', configPath });
+      let nextEntries: Config[] | undefined;
+      try {
+        nextEntries = resolveConfigEntries(await loadConfig(configPath, logger), options.entries);
+        await Promise.all(entryWatchers.map(watcher => watcher.close()));
+        entryWatchers = [];
+        entryWatchers = await startEntryWatchers(nextEntries);
+        currentEntries = nextEntries;
+      } catch (error) {
+        logger.warn(`Keeping the previous configuration until ${configPath} is fixed`, { event: 'config-reload-failed', configPath });
+        options.onError?.(error);
+        if (nextEntries) {
+          // The previous watchers were closed before the new ones failed to start
+          entryWatchers = await startEntryWatchers(currentEntries);
+        }
+      }
+    };
+
+    // Reloads one change at a time, reloading again if the file changed meanwhile
+    const reload = async (): Promise<void> => {
+      if (reloading) {
+        reloadPending = true;
+        return reloading;
+      }
+
+      reloading = reloadConfig().catch(error => options.onError?.(error));
+      await reloading;
+      reloading = undefined;
+
+      if (reloadPending && !closed) {
+        reloadPending = false;
+        await reload();
+      }
+    };
+
+    configWatcher = chokidar.watch(path.resolve(process.cwd(), configPath), { ignoreInitial: true, persistent: true });
+    configWatcher.on('change', () => void reload());
+    await waitUntilReady(configWatcher);
+  }
+
+  return {
+    flush: async () => {
+      await reloading;
+      await Promise.all(entryWatchers.map(watcher => watcher.flush()));
+    },
+    close: async () => {
+      closed = true;
+      await configWatcher?.close();
+      await reloading;
+      await Promise.all(entryWatchers.map(watcher => watcher.close()));
+    }
+  };
+}